@@ -0,0 +1,100 @@
+/**
+ * Stale-while-revalidate cache for static-data responses
+ */
+
+import { APIResponse, TBOCacheConfig, TBOCacheStore, TBOLogger } from '../types/api-types';
+import { MemoryCacheStore } from './stores';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  CountryList: 7 * DAY,
+  CityList: DAY,
+  Hoteldetails: DAY,
+};
+
+/**
+ * Serves cached responses while they are fresh. Past their TTL, but within
+ * staleWhileRevalidateMs, the stale response is served and refreshed in the
+ * background; after that the caller waits for a fresh one. Concurrent misses
+ * for the same request share one fetch, and only Status.Code 200 responses are stored.
+ */
+export class ResponseCache {
+  private store: TBOCacheStore;
+  private ttls: Record<string, number>;
+  private staleWhileRevalidateMs: number;
+  private logger: TBOLogger;
+  private pending = new Map<string, Promise<APIResponse>>();
+
+  constructor(config: TBOCacheConfig, logger: TBOLogger) {
+    this.store = config.store || new MemoryCacheStore();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...config.ttls };
+    this.staleWhileRevalidateMs = config.staleWhileRevalidateMs ?? 60 * 60 * 1000;
+    this.logger = logger;
+  }
+
+  /**
+   * Whether responses from an endpoint are cached
+   */
+  isCached(endpoint: string): boolean {
+    return (this.ttls[endpoint] || 0) > 0;
+  }
+
+  async getOrFetch<T extends APIResponse>(endpoint: string, params: unknown, fetch: () => Promise<T>): Promise<T> {
+    const key = this.keyFor(endpoint, params);
+    const entry = await this.store.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    const ttl = this.ttls[endpoint] || 0;
+
+    if (entry && age < ttl) {
+      this.logger.debug('TBO cache hit', { endpoint, ageMs: age });
+      return entry.value as T;
+    }
+
+    if (entry && age < ttl + this.staleWhileRevalidateMs) {
+      this.logger.debug('TBO cache stale, revalidating', { endpoint, ageMs: age });
+      this.refresh(key, fetch).catch((error: Error) => {
+        this.logger.warn('TBO cache revalidation failed', { endpoint, error: error.message });
+      });
+      return entry.value as T;
+    }
+
+    this.logger.debug('TBO cache miss', { endpoint });
+    return this.refresh(key, fetch);
+  }
+
+  /**
+   * Drop the cached response for one request, or everything when no endpoint is given
+   */
+  async invalidate(endpoint?: string, params: unknown = {}): Promise<void> {
+    if (endpoint === undefined) {
+      await this.store.clear();
+      return;
+    }
+
+    await this.store.delete(this.keyFor(endpoint, params));
+  }
+
+  private refresh<T extends APIResponse>(key: string, fetch: () => Promise<T>): Promise<T> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const request = fetch()
+      .then(async value => {
+        if (value?.Status?.Code === 200) {
+          await this.store.set(key, { value, storedAt: Date.now() });
+        }
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private keyFor(endpoint: string, params: unknown): string {
+    return `${endpoint}:${JSON.stringify(params)}`;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Cache stores for static TBO data
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { TBOCacheEntry, TBOCacheStore } from '../types/api-types';
+
+/**
+ * Store keeping entries in process memory
+ */
+export class MemoryCacheStore implements TBOCacheStore {
+  private entries = new Map<string, TBOCacheEntry>();
+
+  get(key: string): Promise<TBOCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    return Promise.resolve(entry ? this.copy(entry) : undefined);
+  }
+
+  set(key: string, entry: TBOCacheEntry): Promise<void> {
+    this.entries.set(key, this.copy(entry));
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  /** Callers get their own copy, so changing a cached value never changes the cache */
+  private copy(entry: TBOCacheEntry): TBOCacheEntry {
+    return JSON.parse(JSON.stringify(entry)) as TBOCacheEntry;
+  }
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory, so the cache survives restarts
+ */
+export class FileCacheStore implements TBOCacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get(key: string): Promise<TBOCacheEntry | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.fileFor(key), 'utf8');
+      return JSON.parse(content) as TBOCacheEntry;
+    } catch {
+      // Missing and unreadable files are both cache misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: TBOCacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so readers never see a half-written file
+    const file = this.fileFor(key);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(entry));
+    await fs.promises.rename(temporary, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.promises.rm(path.join(this.directory, file), { force: true })));
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+}
@@ -2,90 +2,44 @@
  * Base HTTP client for TBO Holidays Hotel API
  */
 
-import 'dotenv/config';
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { TBOClientConfig, TBOError, APIResponse } from '../types/api-types';
+import {
+  TBOClientConfig,
+  TBOLogger,
+  TBORequestOptions,
+  TBOTransport,
+  TBOValidationConfig,
+  APIResponse,
+} from '../types/api-types';
+import { CircuitBreaker } from '../resilience/circuit-breaker';
+import { HttpTransport } from '../transport/http-transport';
+import { createStatusError, TBOSchemaError } from '../errors/tbo-errors';
+import { formatIssues, Schema, validate } from '../validation/schema';
+import { ENDPOINT_SCHEMAS } from '../validation/schemas';
+import { ResponseCache } from '../cache/response-cache';
+import { silentLogger, withRedaction } from '../logging/logger';
+import { streamJsonArray } from '../utils/json-stream';
 
 export class TBOBaseClient {
-  private client: AxiosInstance;
-  private config: Required<TBOClientConfig>;
+  protected logger: TBOLogger;
+  protected transport: TBOTransport;
+  protected cache: ResponseCache | null;
+  private validation: TBOValidationConfig | null;
 
   constructor(config: TBOClientConfig = {}) {
-    this.config = {
-      baseURL: config.baseURL || process.env.TBO_BASE_URL || 'http://api.tbotechnology.in/TBOHolidays_HotelAPI',
-      username: config.username || process.env.TBO_USERNAME || '',
-      password: config.password || process.env.TBO_PASSWORD || '',
-      timeout: config.timeout || 30000,
-      retries: config.retries || 3,
-    };
-
-    if (!this.config.username || !this.config.password) {
-      console.warn('⚠️  TBO API credentials not provided. Please set username and password in config or environment variables (TBO_USERNAME, TBO_PASSWORD)');
-    }
-
-    this.client = axios.create({
-      baseURL: this.config.baseURL,
-      timeout: this.config.timeout,
-      auth: {
-        username: this.config.username,
-        password: this.config.password,
-      },
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    });
-
-    this.setupInterceptors();
-  }
-
-  private setupInterceptors(): void {
-    // Request interceptor
-    this.client.interceptors.request.use(
-      (config) => {
-        console.log(`📤 Making ${config.method?.toUpperCase()} request to ${config.url}`);
-        return config;
-      },
-      (error) => {
-        console.error('❌ Request error:', error.message);
-        return Promise.reject(this.createTBOError(error));
-      }
-    );
-
-    // Response interceptor
-    this.client.interceptors.response.use(
-      (response) => {
-        console.log(`📥 Received response: ${response.status} ${response.statusText}`);
-        return response;
-      },
-      async (error) => {
-        console.error('❌ Response error:', error.message);
-        
-        // Retry logic
-        const config = error.config as AxiosRequestConfig & { _retryCount?: number };
-        if (config && (config._retryCount || 0) < this.config.retries) {
-          config._retryCount = (config._retryCount || 0) + 1;
-          
-          console.log(`🔄 Retrying request... Attempt ${config._retryCount}`);
-          await this.delay(1000 * config._retryCount); // Exponential backoff
-          
-          return this.client.request(config);
-        }
-        
-        return Promise.reject(this.createTBOError(error));
-      }
-    );
+    this.logger = withRedaction(config.logger || silentLogger);
+    this.transport = config.transport || new HttpTransport(config);
+    this.validation = config.validation || null;
+    this.cache = config.cache ? new ResponseCache(config.cache, this.logger) : null;
   }
 
-  private createTBOError(error: any): TBOError {
-    const tboError = new Error(error.message) as TBOError;
-    tboError.code = error.response?.status;
-    tboError.response = error.response?.data;
-    tboError.request = error.config;
-    return tboError;
+  /**
+   * Circuit breaker of this client's transport, shared by the clients using it, if enabled
+   */
+  public get circuitBreaker(): CircuitBreaker | null {
+    return this.transport instanceof HttpTransport ? this.transport.circuitBreaker : null;
   }
 
-  private delay(ms: number): Promise<void> {
+  protected delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -95,27 +49,108 @@ export class TBOBaseClient {
   protected async makeRequest<T extends APIResponse>(
     endpoint: string,
     data: any = {},
-    method: 'GET' | 'POST' = 'POST'
+    method: 'GET' | 'POST' = 'POST',
+    options: TBORequestOptions = {}
   ): Promise<T> {
-    const config: AxiosRequestConfig & { _retryCount?: number } = {
-      method,
-      url: `/${endpoint}`,
-      _retryCount: 0,
-    };
+    if (this.cache && options.cache !== false && this.cache.isCached(endpoint)) {
+      return this.cache.getOrFetch<T>(endpoint, data, () => this.send<T>(endpoint, data, method, options));
+    }
+
+    return this.send<T>(endpoint, data, method, options);
+  }
+
+  /**
+   * Validate, send and validate the response of a single request
+   */
+  private async send<T extends APIResponse>(
+    endpoint: string,
+    data: any,
+    method: 'GET' | 'POST',
+    options: TBORequestOptions
+  ): Promise<T> {
+    const schemas = this.validation ? ENDPOINT_SCHEMAS[endpoint] : undefined;
 
-    // Add data
-    if (method === 'POST') {
-      config.data = data;
-    } else if (method === 'GET' && Object.keys(data).length > 0) {
-      config.params = data;
+    if (schemas?.request && this.validation?.requests !== false) {
+      data = this.validateAgainst(schemas.request, data, endpoint, 'request');
     }
 
-    try {
-      const response: AxiosResponse<T> = await this.client.request(config);
-      return response.data;
-    } catch (error: any) {
-      throw this.createTBOError(error);
+    const response = await this.transport.request<T>(endpoint, data, method, options);
+
+    if (schemas && this.validation?.responses !== false) {
+      return this.validateAgainst(schemas.response, response, endpoint, 'response') as T;
     }
+
+    return response;
+  }
+
+  /**
+   * Yield the elements of one array in the response as they arrive instead of
+   * buffering the whole body. Transports without streaming support fall back to
+   * a buffered request. Status 201 yields nothing; any other non-200 status throws
+   * once the body has been read.
+   */
+  protected async *streamArray<E>(
+    endpoint: string,
+    arrayKey: string,
+    data: any = {},
+    method: 'GET' | 'POST' = 'POST',
+    itemSchema?: Schema<E>,
+    options: TBORequestOptions = {}
+  ): AsyncGenerator<E> {
+    const schemas = this.validation ? ENDPOINT_SCHEMAS[endpoint] : undefined;
+    if (schemas?.request && this.validation?.requests !== false) {
+      data = this.validateAgainst(schemas.request, data, endpoint, 'request');
+    }
+
+    let envelope: Record<string, unknown> = {};
+    let items: AsyncIterable<unknown> | unknown[];
+
+    if (this.transport.stream) {
+      const body = await this.transport.stream(endpoint, data, method, options);
+      items = streamJsonArray(body, arrayKey, envelope);
+    } else {
+      envelope = await this.transport.request<APIResponse>(endpoint, data, method, options) as APIResponse & Record<string, unknown>;
+      items = Array.isArray(envelope[arrayKey]) ? envelope[arrayKey] as unknown[] : [];
+    }
+
+    for await (const item of items) {
+      yield itemSchema && this.validation?.responses !== false
+        ? this.validateAgainst(itemSchema, item, endpoint, 'response')
+        : item as E;
+    }
+
+    const status = (envelope as Partial<APIResponse>).Status;
+    if (status?.Code !== 200 && status?.Code !== 201) {
+      throw createStatusError(endpoint, envelope as unknown as APIResponse);
+    }
+  }
+
+  /**
+   * Check a request or response against its schema: throw in strict mode,
+   * report and return the coerced value in lenient mode
+   */
+  private validateAgainst<V>(schema: Schema<V>, value: unknown, endpoint: string, direction: 'request' | 'response'): V {
+    if (!this.validation) {
+      return value as V;
+    }
+
+    const result = validate(schema, value, this.validation.mode);
+    if (result.issues.length === 0) {
+      return result.value;
+    }
+
+    if (this.validation.mode === 'strict') {
+      throw new TBOSchemaError(`${endpoint} ${direction} failed validation: ${formatIssues(result.issues)}`, {
+        endpoint,
+        direction,
+        issues: result.issues,
+        response: direction === 'response' ? value : undefined,
+      });
+    }
+
+    this.logger.warn('TBO schema warnings', { endpoint, direction, issues: result.issues });
+    this.validation.onWarning?.({ endpoint, direction, issues: result.issues });
+    return result.value;
   }
 
   /**
@@ -148,11 +183,7 @@ export class TBOBaseClient {
     return codes.slice(0, limit).join(',');
   }
 
-  public prettyPrint(data: any, title: string = 'API Response'): void {
-    console.log(`\n${'='.repeat(60)}`);
-    console.log(title);
-    console.log('='.repeat(60));
-    console.log(JSON.stringify(data, null, 2));
-    console.log('='.repeat(60));
+  public prettyPrint(data: unknown, title: string = 'API Response'): void {
+    this.logger.info(title, { data });
   }
 }
\ No newline at end of file
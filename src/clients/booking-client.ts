@@ -0,0 +1,487 @@
+/**
+ * Booking Client for TBO API
+ */
+
+import { randomUUID } from 'crypto';
+import { TBOBaseClient } from './base-client';
+import {
+  BookingDetailRequest,
+  BookingDetailResponse,
+  BookingGuest,
+  BookingResponse,
+  BookingsByDateRequest,
+  BookingsByDateResponse,
+  BookingSummary,
+  CustomerDetails,
+  CustomerName,
+  HotelBookRequest,
+  TBOClientConfig,
+  TBOError,
+} from '../types/api-types';
+import {
+  createStatusError,
+  TBOBookingStateUnknownError,
+  TBOCircuitOpenError,
+  TBONetworkError,
+  TBOSchemaError,
+  TBOTimeoutError,
+} from '../errors/tbo-errors';
+
+/** Connection failures that happen before the request is sent */
+const UNSENT_NETWORK_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+export class BookingClient extends TBOBaseClient {
+  constructor(config?: TBOClientConfig) {
+    super(config);
+  }
+
+  /**
+   * Book a hotel using a booking code confirmed by pre-book.
+   *
+   * The request always carries a client reference so it can be identified later.
+   * Book is never retried blindly: when a call times out or fails ambiguously,
+   * the booking is looked up by its reference and only re-sent once TBO says
+   * it has no record of it. When the lookup cannot tell, a
+   * TBOBookingStateUnknownError is thrown. Pass lookupFirst when resending a
+   * request whose earlier Book call may have gone through.
+   */
+  async bookHotel(
+    request: HotelBookRequest,
+    options: { maxAttempts?: number; lookupDelayMs?: number; lookupFirst?: boolean } = {}
+  ): Promise<BookingResponse> {
+    const maxAttempts = options.maxAttempts && options.maxAttempts > 0 ? options.maxAttempts : 2;
+    const lookupDelayMs = options.lookupDelayMs ?? 2000;
+    const bookRequest = this.withReferenceIds(request);
+    const bookingReferenceId = bookRequest.BookingReferenceId as string;
+
+    if (options.lookupFirst) {
+      const existing = await this.recoverBooking(bookRequest, bookingReferenceId);
+      if (existing === 'unknown') {
+        throw new TBOBookingStateUnknownError(
+          `Could not tell whether booking ${bookingReferenceId} exists`,
+          { endpoint: 'BookingDetail', bookingReferenceId, cause: undefined }
+        );
+      }
+      if (existing) {
+        return existing;
+      }
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.makeRequest<BookingResponse>('Book', bookRequest, 'POST', { retry: false });
+      } catch (error) {
+        if (!this.isAmbiguousFailure(error)) {
+          throw error;
+        }
+
+        // Give TBO a moment to persist a booking that may have gone through
+        await this.delay(lookupDelayMs);
+
+        const recovered = await this.recoverBooking(bookRequest, bookingReferenceId);
+        if (recovered === 'unknown') {
+          const tboError = error as TBOError;
+          throw new TBOBookingStateUnknownError(
+            `Book failed ambiguously and booking ${bookingReferenceId} could not be looked up: ${tboError.message}`,
+            { code: tboError.code, endpoint: 'Book', bookingReferenceId, cause: error }
+          );
+        }
+        if (recovered) {
+          return recovered;
+        }
+        if (attempt >= maxAttempts) {
+          throw error;
+        }
+
+        this.logger.warn('Booking not found after ambiguous failure, retrying', {
+          endpoint: 'Book',
+          bookingReferenceId,
+          retryAttempt: attempt,
+        });
+      }
+    }
+  }
+
+  /**
+   * Generate a unique reference id for a booking request
+   */
+  generateReferenceId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * Get details of a booking by its booking reference id
+   */
+  async getBookingDetails(bookingReferenceId: string, paymentMode: string = 'Limit'): Promise<BookingDetailResponse> {
+    const request: BookingDetailRequest = {
+      BookingReferenceId: bookingReferenceId,
+      PaymentMode: paymentMode,
+    };
+
+    return this.makeRequest<BookingDetailResponse>('BookingDetail', request, 'POST');
+  }
+
+  /**
+   * Get bookings made within a single date range
+   */
+  async getBookingsByDate(fromDate: string, toDate: string): Promise<BookingsByDateResponse> {
+    const request: BookingsByDateRequest = {
+      FromDate: fromDate,
+      ToDate: toDate,
+    };
+
+    return this.makeRequest<BookingsByDateResponse>('BookingDetailsBasedOnDate', request, 'POST');
+  }
+
+  /**
+   * Iterate over bookings in a date range of any length, splitting it into
+   * windows the API accepts and skipping bookings already yielded
+   */
+  async *iterateBookingsByDate(
+    fromDate: string | Date,
+    toDate: string | Date,
+    options: { windowDays?: number } = {}
+  ): AsyncGenerator<BookingSummary> {
+    const windowDays = options.windowDays && options.windowDays > 0 ? options.windowDays : 7;
+    const seen = new Set<string>();
+
+    for (const window of this.splitDateRange(fromDate, toDate, windowDays)) {
+      const request: BookingsByDateRequest = { FromDate: window.fromDate, ToDate: window.toDate };
+      const response = await this.makeRequest<BookingsByDateResponse>('BookingDetailsBasedOnDate', request, 'POST', {
+        throwOnStatusError: false,
+      });
+
+      // Status 201 means no bookings in the window
+      if (response.Status?.Code === 201) {
+        continue;
+      }
+      if (response.Status && response.Status.Code !== 200) {
+        throw createStatusError('BookingDetailsBasedOnDate', response);
+      }
+
+      for (const booking of response.BookingDetails || []) {
+        const key = booking.BookingReferenceId || String(booking.BookingId);
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        yield booking;
+      }
+    }
+  }
+
+  /**
+   * Split an inclusive date range into consecutive windows of at most windowDays days
+   */
+  splitDateRange(
+    fromDate: string | Date,
+    toDate: string | Date,
+    windowDays: number
+  ): Array<{ fromDate: string; toDate: string }> {
+    const start = this.toUTCDate(fromDate);
+    const end = this.toUTCDate(toDate);
+    const windows: Array<{ fromDate: string; toDate: string }> = [];
+
+    if (end < start) {
+      throw new Error(`Invalid date range: ${this.formatDate(start)} is after ${this.formatDate(end)}`);
+    }
+
+    const cursor = new Date(start);
+    while (cursor <= end) {
+      const windowEnd = new Date(cursor);
+      windowEnd.setUTCDate(windowEnd.getUTCDate() + windowDays - 1);
+
+      windows.push({
+        fromDate: this.formatDate(cursor),
+        toDate: this.formatDate(windowEnd < end ? windowEnd : end),
+      });
+
+      cursor.setUTCDate(cursor.getUTCDate() + windowDays);
+    }
+
+    return windows;
+  }
+
+  /**
+   * Create a customer name entry for a single guest
+   */
+  createCustomerName(guest: BookingGuest): CustomerName {
+    return {
+      Title: guest.title,
+      FirstName: guest.firstName,
+      LastName: guest.lastName,
+      Type: guest.type || 'Adult',
+    };
+  }
+
+  /**
+   * Build customer details from a per-room guest list
+   */
+  buildCustomerDetails(rooms: BookingGuest[][]): CustomerDetails[] {
+    return rooms.map(guests => ({
+      CustomerNames: guests.map(guest => this.createCustomerName(guest)),
+    }));
+  }
+
+  /**
+   * Build a complete book request from a booking code and guest list
+   */
+  createBookRequest(
+    bookingCode: string,
+    totalFare: number,
+    rooms: BookingGuest[][],
+    contact: { email: string; phone: string },
+    options: {
+      paymentMode?: HotelBookRequest['PaymentMode'];
+      clientReferenceId?: string;
+      bookingType?: string;
+    } = {}
+  ): HotelBookRequest {
+    const request: HotelBookRequest = {
+      BookingCode: bookingCode,
+      CustomerDetails: this.buildCustomerDetails(rooms),
+      TotalFare: totalFare,
+      EmailId: contact.email,
+      PhoneNumber: contact.phone,
+      BookingType: options.bookingType || 'Voucher',
+      PaymentMode: options.paymentMode || 'Limit',
+    };
+
+    if (options.clientReferenceId) {
+      request.ClientReferenceId = options.clientReferenceId;
+    }
+
+    return request;
+  }
+
+  /**
+   * Extract booking information
+   */
+  extractBookingInfo(response: BookingResponse): {
+    status: { code: number; description: string } | null;
+    confirmationNumber: string | null;
+    bookingId: number | null;
+    bookingReferenceId: string | null;
+    bookingStatus: string | null;
+    invoiceNumber: string | null;
+    hotelName: string | null;
+    checkIn: string | null;
+    checkOut: string | null;
+    totalFare: number | null;
+    currency: string | null;
+  } {
+    const info = {
+      status: null as { code: number; description: string } | null,
+      confirmationNumber: null as string | null,
+      bookingId: null as number | null,
+      bookingReferenceId: null as string | null,
+      bookingStatus: null as string | null,
+      invoiceNumber: null as string | null,
+      hotelName: null as string | null,
+      checkIn: null as string | null,
+      checkOut: null as string | null,
+      totalFare: null as number | null,
+      currency: null as string | null,
+    };
+
+    // Extract status
+    if (response.Status) {
+      info.status = {
+        code: response.Status.Code,
+        description: response.Status.Description,
+      };
+    }
+
+    // Extract booking details
+    if (response.BookingDetails) {
+      const details = response.BookingDetails;
+
+      info.confirmationNumber = details.ConfirmationNumber || null;
+      info.bookingId = details.BookingId || null;
+      info.bookingReferenceId = details.BookingReferenceId || null;
+      info.bookingStatus = details.BookingStatus || null;
+      info.invoiceNumber = details.InvoiceNumber || null;
+      info.hotelName = details.HotelName || null;
+      info.checkIn = details.CheckIn || null;
+      info.checkOut = details.CheckOut || null;
+
+      // Extract pricing
+      if (details.Price) {
+        info.totalFare = details.Price.OfferedPrice;
+        info.currency = details.Price.CurrencyCode;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Validate booking response
+   */
+  validateBookingResponse(response: BookingResponse): { isValid: boolean; message: string } {
+    const info = this.extractBookingInfo(response);
+
+    if (!info.status) {
+      return { isValid: false, message: 'No status information in response' };
+    }
+
+    if (info.status.code !== 200) {
+      return { isValid: false, message: `Booking failed: ${info.status.description}` };
+    }
+
+    if (!info.confirmationNumber) {
+      return { isValid: false, message: 'No confirmation number in response' };
+    }
+
+    if (info.bookingStatus && info.bookingStatus.toLowerCase() !== 'confirmed') {
+      return { isValid: false, message: `Booking not confirmed: ${info.bookingStatus}` };
+    }
+
+    return { isValid: true, message: 'Booking successful' };
+  }
+
+  /**
+   * Ensure a book request carries client and booking reference ids
+   */
+  private withReferenceIds(request: HotelBookRequest): HotelBookRequest {
+    const referenceId = request.BookingReferenceId || request.ClientReferenceId || this.generateReferenceId();
+
+    return {
+      ...request,
+      ClientReferenceId: request.ClientReferenceId || referenceId,
+      BookingReferenceId: request.BookingReferenceId || referenceId,
+    };
+  }
+
+  /**
+   * Timeouts, lost connections, server errors and unreadable Book responses leave
+   * the booking state unknown. Errors raised before the request went out (request
+   * validation, an open circuit, a refused connection) do not.
+   */
+  private isAmbiguousFailure(error: unknown): boolean {
+    if (error instanceof TBOSchemaError) {
+      return error.direction === 'response';
+    }
+    if (error instanceof TBOCircuitOpenError) {
+      return false;
+    }
+    if (error instanceof TBOTimeoutError) {
+      return true;
+    }
+    if (error instanceof TBONetworkError) {
+      return !error.errorCode || !UNSENT_NETWORK_CODES.includes(error.errorCode);
+    }
+    const code = (error as TBOError).code;
+    return code !== undefined && code >= 500;
+  }
+
+  /**
+   * Look up a booking after an ambiguous failure. Resolves to the booking when it
+   * exists, null only when TBO clearly says it has no record of it, and 'unknown'
+   * when the lookup fails or answers with any other status.
+   */
+  private async recoverBooking(
+    request: HotelBookRequest,
+    bookingReferenceId: string
+  ): Promise<BookingResponse | null | 'unknown'> {
+    const detailRequest: BookingDetailRequest = {
+      BookingReferenceId: bookingReferenceId,
+      PaymentMode: request.PaymentMode,
+    };
+
+    // Statuses are inspected here rather than thrown, to tell not-found from other failures
+    let detail: BookingDetailResponse;
+    try {
+      detail = await this.makeRequest<BookingDetailResponse>('BookingDetail', detailRequest, 'POST', {
+        throwOnStatusError: false,
+      });
+    } catch {
+      return 'unknown';
+    }
+
+    const details = detail.BookingDetails;
+    if (!detail.Status || detail.Status.Code !== 200 || !details) {
+      return this.isBookingNotFound(detail) ? null : 'unknown';
+    }
+
+    return {
+      Status: detail.Status,
+      BookingDetails: {
+        ConfirmationNumber: details.ConfirmationNumber || '',
+        BookingId: details.BookingId || 0,
+        BookingReferenceId: details.BookingReferenceId || bookingReferenceId,
+        BookingStatus: details.BookingStatus || '',
+        InvoiceNumber: details.InvoiceNumber || '',
+        HotelName: details.HotelName,
+        HotelCode: details.HotelCode,
+        CheckIn: details.CheckIn,
+        CheckOut: details.CheckOut,
+        Price: details.Price,
+        CustomerDetails: request.CustomerDetails,
+        HotelDetails: {
+          Address: details.HotelDetails?.Address,
+          HotelContactNo: details.HotelDetails?.HotelContactNo,
+          HotelEmailId: details.HotelDetails?.HotelEmailId,
+        },
+        CancellationPolicies: {
+          CancelPolicies: details.CancellationPolicies?.CancelPolicies || [],
+        },
+      },
+    };
+  }
+
+  /**
+   * Only a "no results" status or a not-found description counts as a definite
+   * not-found; a 5xx inside an HTTP 200 reply says nothing about the booking
+   */
+  private isBookingNotFound(detail: BookingDetailResponse): boolean {
+    const status = detail.Status;
+    if (!status) {
+      return false;
+    }
+    if (status.Code === 201) {
+      return true;
+    }
+    return (status.Code === 400 || status.Code === 404) &&
+      /not found|no record|does not exist|no booking/i.test(status.Description || '');
+  }
+
+  private toUTCDate(value: string | Date): Date {
+    const date = typeof value === 'string' ? new Date(`${value.slice(0, 10)}T00:00:00Z`) : new Date(value);
+
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date: ${String(value)}`);
+    }
+
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  /**
+   * Log booking summary
+   */
+  printBookingSummary(response: BookingResponse): void {
+    const info = this.extractBookingInfo(response);
+    const validation = this.validateBookingResponse(response);
+
+    if (validation.isValid) {
+      this.logger.info('Booking summary', {
+        valid: true,
+        message: validation.message,
+        confirmationNumber: info.confirmationNumber,
+        bookingReferenceId: info.bookingReferenceId,
+        hotelName: info.hotelName,
+        checkIn: info.checkIn,
+        checkOut: info.checkOut,
+        totalFare: info.totalFare,
+        currency: info.currency,
+      });
+    } else {
+      this.logger.warn('Booking summary', {
+        valid: false,
+        message: validation.message,
+        tboStatus: info.status?.code,
+        statusDescription: info.status?.description,
+      });
+    }
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Cancellation Client for TBO API
+ */
+
+import { TBOBaseClient } from './base-client';
+import {
+  CancelRequest,
+  CancelResponse,
+  CancellationPolicy,
+  TBOClientConfig,
+} from '../types/api-types';
+import { CancellationSchedule, nightsBetween } from '../policies/cancellation-policy';
+
+export class CancellationClient extends TBOBaseClient {
+  constructor(config?: TBOClientConfig) {
+    super(config);
+  }
+
+  /**
+   * Cancel a confirmed booking
+   */
+  async cancelBooking(confirmationNumber: string): Promise<CancelResponse> {
+    const request: CancelRequest = {
+      ConfirmationNumber: confirmationNumber,
+    };
+
+    return this.makeRequest<CancelResponse>('Cancel', request, 'POST');
+  }
+
+  /**
+   * Extract a normalized refund summary from a cancel response
+   */
+  extractRefundSummary(response: CancelResponse): {
+    status: { code: number; description: string } | null;
+    confirmationNumber: string | null;
+    cancellationId: string | null;
+    cancellationStatus: string | null;
+    originalAmount: number | null;
+    cancellationCharge: number | null;
+    netRefund: number | null;
+    currency: string | null;
+  } {
+    const summary = {
+      status: null as { code: number; description: string } | null,
+      confirmationNumber: null as string | null,
+      cancellationId: null as string | null,
+      cancellationStatus: null as string | null,
+      originalAmount: null as number | null,
+      cancellationCharge: null as number | null,
+      netRefund: null as number | null,
+      currency: null as string | null,
+    };
+
+    // Extract status
+    if (response.Status) {
+      summary.status = {
+        code: response.Status.Code,
+        description: response.Status.Description,
+      };
+    }
+
+    // Extract cancellation details
+    if (response.CancellationDetails) {
+      const details = response.CancellationDetails;
+
+      summary.confirmationNumber = details.ConfirmationNumber || null;
+      summary.cancellationId = details.CancellationId || null;
+      summary.cancellationStatus = details.CancellationStatus || null;
+
+      // Extract refund, falling back to gross refund when no net amount is given
+      if (details.RefundDetails) {
+        const refund = details.RefundDetails;
+        summary.originalAmount = refund.OriginalBookingAmount ?? null;
+        summary.cancellationCharge = refund.CancellationCharge ?? null;
+        summary.netRefund = refund.NetRefundAmount ?? refund.RefundAmount ?? null;
+        summary.currency = refund.Currency || null;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Validate cancel response
+   */
+  validateCancelResponse(response: CancelResponse): { isValid: boolean; message: string } {
+    const summary = this.extractRefundSummary(response);
+
+    if (!summary.status) {
+      return { isValid: false, message: 'No status information in response' };
+    }
+
+    if (summary.status.code !== 200) {
+      return { isValid: false, message: `Cancellation failed: ${summary.status.description}` };
+    }
+
+    if (!summary.cancellationId) {
+      return { isValid: false, message: 'No cancellation id in response' };
+    }
+
+    return { isValid: true, message: 'Cancellation successful' };
+  }
+
+  /**
+   * Quote the cancellation charge for a set of policies at a given time,
+   * without calling the API
+   */
+  quoteCancellation(
+    policies: CancellationPolicy[],
+    totalFare: number,
+    options: {
+      at?: Date;
+      nights?: number;
+      currency?: string;
+      /** Time zone of the policy dates, usually the hotel's (default UTC) */
+      timeZone?: string;
+    } = {}
+  ): {
+    charge: number;
+    refund: number;
+    currency: string | null;
+    isFree: boolean;
+    appliedPolicy: CancellationPolicy | null;
+  } {
+    const { at, ...context } = options;
+    const quote = new CancellationSchedule(policies, { ...context, totalFare }).penaltyAt(at);
+
+    return {
+      charge: quote.charge,
+      refund: quote.refund,
+      currency: quote.currency,
+      isFree: quote.isFree,
+      appliedPolicy: quote.tier ? quote.tier.policy : null,
+    };
+  }
+
+  /**
+   * Quote the cancellation charge for a booking (or pre-book) details object
+   */
+  quoteCancellationForBooking(
+    details: Parameters<typeof CancellationSchedule.forBooking>[0],
+    at: Date = new Date(),
+    options: { timeZone?: string } = {}
+  ): ReturnType<CancellationClient['quoteCancellation']> {
+    return this.quoteCancellation(
+      details.CancellationPolicies?.CancelPolicies || [],
+      details.Price?.OfferedPrice || 0,
+      {
+        at,
+        nights: nightsBetween(details.CheckIn, details.CheckOut),
+        ...(details.Price?.CurrencyCode ? { currency: details.Price.CurrencyCode } : {}),
+        ...options,
+      }
+    );
+  }
+}
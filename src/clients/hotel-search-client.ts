@@ -4,12 +4,26 @@
 
 import { TBOBaseClient } from './base-client';
 import {
+  BatchedSearchOptions,
+  BatchedSearchResult,
+  HotelResult,
+  HotelRoomCombinations,
   HotelSearchRequest,
   HotelSearchResponse,
   PaxRoom,
+  Room,
+  RoomCombination,
+  SearchBatchOutcome,
   SearchFilters,
+  SearchSummary,
   TBOClientConfig,
 } from '../types/api-types';
+import { createStatusError } from '../errors/tbo-errors';
+import { CancellationSchedule } from '../policies/cancellation-policy';
+import { breakdownRoomFare, RoomFareBreakdown } from '../pricing/price-breakdown';
+
+/** Most hotel codes TBO accepts in one search request */
+export const MAX_HOTEL_CODES_PER_SEARCH = 100;
 
 export class HotelSearchClient extends TBOBaseClient {
   constructor(config?: TBOClientConfig) {
@@ -23,6 +37,80 @@ export class HotelSearchClient extends TBOBaseClient {
     return this.makeRequest<HotelSearchResponse>('search', request, 'POST');
   }
 
+  /**
+   * Search any number of hotels by splitting the codes into batches TBO accepts
+   * and running them in parallel. Failed batches are reported instead of failing
+   * the search; it only throws when every batch failed.
+   */
+  async searchHotelsInBatches(
+    request: Omit<HotelSearchRequest, 'HotelCodes'>,
+    hotelCodes: string[],
+    options: BatchedSearchOptions = {}
+  ): Promise<BatchedSearchResult> {
+    const requested = options.batchSize && options.batchSize > 0 ? options.batchSize : MAX_HOTEL_CODES_PER_SEARCH;
+    const batchSize = Math.min(requested, MAX_HOTEL_CODES_PER_SEARCH);
+    const concurrency = options.concurrency && options.concurrency > 0 ? options.concurrency : 4;
+    const codes = [...new Set(hotelCodes)];
+
+    const batches: SearchBatchOutcome[] = [];
+    for (let start = 0; start < codes.length; start += batchSize) {
+      batches.push({ hotelCodes: codes.slice(start, start + batchSize), status: 'empty', hotels: 0 });
+    }
+
+    const results: HotelResult[][] = batches.map(() => []);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < batches.length) {
+        const index = next++;
+        const batch = batches[index];
+        try {
+          const response = await this.makeRequest<HotelSearchResponse>(
+            'search',
+            { ...request, HotelCodes: batch.hotelCodes.join(',') },
+            'POST',
+            { throwOnStatusError: false }
+          );
+
+          if (response.Status?.Code === 200) {
+            results[index] = response.HotelResult || [];
+            batch.status = 'ok';
+            batch.hotels = results[index].length;
+          } else if (response.Status?.Code !== 201) {
+            throw createStatusError('search', response);
+          }
+        } catch (error) {
+          batch.status = 'failed';
+          batch.error = error as Error;
+          this.logger.error('Error in search batch', {
+            hotelCodes: batch.hotelCodes.join(','),
+            error: (error as Error).message,
+          });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    const failed = batches.filter(batch => batch.status === 'failed');
+    if (failed.length > 0 && failed.length === batches.length) {
+      throw failed[0].error;
+    }
+
+    const hotels = results.flat();
+    const response: HotelSearchResponse = {
+      Status: hotels.length > 0
+        ? { Code: 200, Description: 'Successful' }
+        : { Code: 201, Description: 'No Available rooms for given criteria' },
+      HotelResult: hotels,
+    };
+
+    return {
+      response,
+      summary: this.getSearchSummary(response),
+      batches,
+      failedBatches: failed.length,
+    };
+  }
+
   /**
    * Search for a single room
    */
@@ -86,11 +174,7 @@ export class HotelSearchClient extends TBOBaseClient {
       filters?: SearchFilters;
     } = {}
   ): Promise<HotelSearchResponse> {
-    const paxRooms: PaxRoom[] = roomConfigs.map(config => ({
-      Adults: config.adults,
-      Children: config.children || 0,
-      ChildrenAges: config.childrenAges || [],
-    }));
+    const paxRooms = this.toPaxRooms(roomConfigs);
 
     const request: HotelSearchRequest = {
       CheckIn: checkIn,
@@ -113,6 +197,37 @@ export class HotelSearchClient extends TBOBaseClient {
     return this.searchHotels(request);
   }
 
+  /**
+   * Search for multiple rooms and group the results into bookable combinations
+   */
+  async searchRoomCombinations(
+    checkIn: string,
+    checkOut: string,
+    roomConfigs: Array<{
+      adults: number;
+      children?: number;
+      childrenAges?: number[];
+    }>,
+    guestNationality: string = 'AE',
+    hotelCodes?: string,
+    options: {
+      responseTime?: number;
+      isDetailedResponse?: boolean;
+      filters?: SearchFilters;
+    } = {}
+  ): Promise<{ response: HotelSearchResponse; hotels: HotelRoomCombinations[] }> {
+    const response = await this.searchMultipleRooms(checkIn, checkOut, roomConfigs, guestNationality, hotelCodes, options);
+    return { response, hotels: this.getRoomCombinations(response, this.toPaxRooms(roomConfigs)) };
+  }
+
+  private toPaxRooms(roomConfigs: Array<{ adults: number; children?: number; childrenAges?: number[] }>): PaxRoom[] {
+    return roomConfigs.map(config => ({
+      Adults: config.adults,
+      Children: config.children || 0,
+      ChildrenAges: config.childrenAges || [],
+    }));
+  }
+
   /**
    * Extract booking codes from search response
    */
@@ -134,15 +249,84 @@ export class HotelSearchClient extends TBOBaseClient {
     return bookingCodes;
   }
 
+  /**
+   * Group the rooms of a multi-room search into bookable combinations. TBO returns
+   * each combination as one room whose Name and DayRates list one entry per
+   * requested room, in PaxRooms order, under a single booking code.
+   */
+  getRoomCombinations(
+    response: HotelSearchResponse,
+    paxRooms: PaxRoom[],
+    options: { timeZone?: string } = {}
+  ): HotelRoomCombinations[] {
+    return (response.HotelResult || []).map(hotel => {
+      const combinations: RoomCombination[] = [];
+      const incomplete: Room[] = [];
+
+      for (const room of hotel.Rooms || []) {
+        const names = room.Name || [];
+        const coversAll = names.length === paxRooms.length &&
+          (!room.DayRates || room.DayRates.length === paxRooms.length);
+        if (!coversAll || !room.BookingCode) {
+          incomplete.push(room);
+          continue;
+        }
+
+        const freeCancellation = this.getCancellationSchedule(hotel, room, options).freeCancellation();
+        combinations.push({
+          bookingCode: room.BookingCode,
+          totalFare: room.TotalFare,
+          totalTax: room.TotalTax,
+          currency: hotel.Currency,
+          mealType: room.MealType,
+          inclusion: room.Inclusion,
+          isRefundable: room.IsRefundable,
+          withTransfers: room.WithTransfers,
+          cancelPolicies: room.CancelPolicies || [],
+          freeCancellationUntil: freeCancellation.until ? freeCancellation.until.toISOString() : null,
+          rooms: paxRooms.map((occupancy, index) => ({
+            occupancy,
+            name: names[index],
+            baseFare: room.DayRates
+              ? room.DayRates[index].reduce((total, rate) => total + rate.BasePrice, 0)
+              : null,
+          })),
+        });
+      }
+
+      return {
+        hotelCode: hotel.HotelCode,
+        currency: hotel.Currency,
+        combinations: combinations.sort((a, b) => a.totalFare - b.totalFare),
+        incomplete,
+      };
+    });
+  }
+
+  /**
+   * Cancellation schedule of a room, for its free cancellation deadline,
+   * the penalty at a given time or the policy as text
+   */
+  getCancellationSchedule(hotel: HotelResult, room: Room, options: { timeZone?: string } = {}): CancellationSchedule {
+    return CancellationSchedule.forRoom(room, { currency: hotel.Currency, ...options });
+  }
+
+  /**
+   * Per-room, per-night and per-guest fares of a room or combination. Pass the
+   * searched PaxRooms for guest totals and the check-in date to date each night.
+   */
+  getPriceBreakdown(
+    hotel: HotelResult,
+    room: Room,
+    options: { paxRooms?: PaxRoom[]; checkIn?: string } = {}
+  ): RoomFareBreakdown {
+    return breakdownRoomFare(room, { currency: hotel.Currency, ...options });
+  }
+
   /**
    * Get search summary
    */
-  getSearchSummary(response: HotelSearchResponse): {
-    totalHotels: number;
-    totalRooms: number;
-    totalBookingCodes: number;
-    priceRange: { min: number; max: number; currency: string } | null;
-  } {
+  getSearchSummary(response: HotelSearchResponse): SearchSummary {
     let totalHotels = 0;
     let totalRooms = 0;
     let totalBookingCodes = 0;
@@ -4,10 +4,13 @@
 
 import { TBOBaseClient } from './base-client';
 import {
+  CancellationPolicy,
   PreBookRequest,
   PreBookResponse,
   TBOClientConfig,
 } from '../types/api-types';
+import { CancellationSchedule, nightsBetween } from '../policies/cancellation-policy';
+import { breakdownPrice, PriceBreakdown } from '../pricing/price-breakdown';
 
 export class PreBookClient extends TBOBaseClient {
   constructor(config?: TBOClientConfig) {
@@ -27,9 +30,11 @@ export class PreBookClient extends TBOBaseClient {
   }
 
   /**
-   * Extract pre-book information
+   * Extract pre-book information. Refundability and the free cancellation
+   * deadline are worked out from the policies at `at` (default now), reading
+   * policy dates in the hotel's time zone when one is given.
    */
-  extractPreBookInfo(response: PreBookResponse): {
+  extractPreBookInfo(response: PreBookResponse, options: { at?: Date; timeZone?: string } = {}): {
     status: { code: number; description: string } | null;
     bookingCode: string | null;
     totalFare: number | null;
@@ -38,7 +43,9 @@ export class PreBookClient extends TBOBaseClient {
     checkIn: string | null;
     checkOut: string | null;
     isRefundable: boolean;
-    cancellationPolicies: any[] | null;
+    freeCancellationUntil: string | null;
+    cancellationPolicyText: string | null;
+    cancellationPolicies: CancellationPolicy[] | null;
   } {
     const info = {
       status: null as { code: number; description: string } | null,
@@ -49,7 +56,9 @@ export class PreBookClient extends TBOBaseClient {
       checkIn: null as string | null,
       checkOut: null as string | null,
       isRefundable: false,
-      cancellationPolicies: null as any[] | null,
+      freeCancellationUntil: null as string | null,
+      cancellationPolicyText: null as string | null,
+      cancellationPolicies: null as CancellationPolicy[] | null,
     };
 
     // Extract status
@@ -77,16 +86,19 @@ export class PreBookClient extends TBOBaseClient {
 
       // Extract cancellation policies
       if (details.CancellationPolicies) {
-        info.cancellationPolicies = details.CancellationPolicies.CancelPolicies;
+        const policies = details.CancellationPolicies.CancelPolicies || [];
+        info.cancellationPolicies = policies;
         info.isRefundable = !details.CancellationPolicies.NonRefundable;
-        
-        // Check if first policy has no charge (free cancellation period)
-        if (details.CancellationPolicies.CancelPolicies && 
-            details.CancellationPolicies.CancelPolicies.length > 0) {
-          const firstPolicy = details.CancellationPolicies.CancelPolicies[0];
-          if (firstPolicy.CancellationCharge === 0) {
-            info.isRefundable = true;
-          }
+
+        // Policies, when given, say whether cancelling now still refunds anything;
+        // a rate TBO flags as non-refundable stays so whatever its policy dates
+        if (policies.length > 0) {
+          const schedule = CancellationSchedule.forBooking(details, options.timeZone ? { timeZone: options.timeZone } : {});
+          const free = schedule.freeCancellation(options.at);
+
+          info.isRefundable = info.isRefundable && schedule.isRefundable(options.at);
+          info.freeCancellationUntil = free.until ? free.until.toISOString() : null;
+          info.cancellationPolicyText = schedule.describe();
         }
       }
     }
@@ -94,6 +106,23 @@ export class PreBookClient extends TBOBaseClient {
     return info;
   }
 
+  /**
+   * Taxes, fees and commission of the pre-book price, checked against
+   * PublishedPrice and OfferedPrice; null when the response has no price
+   */
+  getPriceBreakdown(response: PreBookResponse, options: { guests?: number } = {}): PriceBreakdown | null {
+    const details = response.HotelBookingDetails;
+    if (!details?.Price) {
+      return null;
+    }
+
+    return breakdownPrice(details.Price, {
+      nights: nightsBetween(details.CheckIn, details.CheckOut),
+      rooms: details.RoomDetails?.length || 1,
+      ...options,
+    });
+  }
+
   /**
    * Validate pre-book response
    */
@@ -120,31 +149,31 @@ export class PreBookClient extends TBOBaseClient {
   }
 
   /**
-   * Print pre-book summary
+   * Log pre-book summary
    */
   printPreBookSummary(response: PreBookResponse): void {
     const info = this.extractPreBookInfo(response);
     const validation = this.validatePreBookResponse(response);
 
-    console.log('\n' + '='.repeat(60));
-    console.log('PRE-BOOKING SUMMARY');
-    console.log('='.repeat(60));
-    
     if (validation.isValid) {
-      console.log(`✅ ${validation.message}`);
-      console.log(`Hotel Name: ${info.hotelName}`);
-      console.log(`Check-in: ${info.checkIn}`);
-      console.log(`Check-out: ${info.checkOut}`);
-      console.log(`Total Fare: ${info.totalFare} ${info.currency}`);
-      console.log(`Refundable: ${info.isRefundable ? 'Yes' : 'No'}`);
-      console.log(`Booking Code: ${info.bookingCode}`);
+      this.logger.info('Pre-booking summary', {
+        valid: true,
+        message: validation.message,
+        hotelName: info.hotelName,
+        checkIn: info.checkIn,
+        checkOut: info.checkOut,
+        totalFare: info.totalFare,
+        currency: info.currency,
+        refundable: info.isRefundable,
+        bookingCode: info.bookingCode,
+      });
     } else {
-      console.log(`❌ ${validation.message}`);
-      if (info.status) {
-        console.log(`Status: ${info.status.code} - ${info.status.description}`);
-      }
+      this.logger.warn('Pre-booking summary', {
+        valid: false,
+        message: validation.message,
+        tboStatus: info.status?.code,
+        statusDescription: info.status?.description,
+      });
     }
-    
-    console.log('='.repeat(60));
   }
 }
\ No newline at end of file
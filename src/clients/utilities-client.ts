@@ -12,8 +12,12 @@ import {
   Country,
   City,
   HotelDetail,
+  HotelCodeListEntry,
+  HotelCodeListResponse,
   TBOClientConfig,
+  TBOHotelCodeListRequest,
 } from '../types/api-types';
+import { HotelCodeListEntrySchema } from '../validation/schemas';
 
 export class UtilitiesClient extends TBOBaseClient {
   constructor(config?: TBOClientConfig) {
@@ -51,19 +55,67 @@ export class UtilitiesClient extends TBOBaseClient {
   /**
    * Get all hotel codes list
    */
-  async getHotelCodesList(): Promise<any> {
-    return this.makeRequest('hotelcodelist', {}, 'GET');
+  async getHotelCodesList(): Promise<HotelCodeListResponse> {
+    return this.makeRequest<HotelCodeListResponse>('hotelcodelist', {}, 'GET');
   }
 
   /**
    * Get TBO hotel codes for a specific city
    */
-  async getTBOHotelCodesByCity(cityCode: string, isDetailedResponse: boolean = true): Promise<any> {
-    const request = {
+  async getTBOHotelCodesByCity(cityCode: string, isDetailedResponse: boolean = true): Promise<HotelCodeListResponse> {
+    return this.makeRequest<HotelCodeListResponse>('TBOHotelCodeList', this.hotelCodeListRequest(cityCode, isDetailedResponse), 'POST');
+  }
+
+  /**
+   * Stream the global hotel code list, yielding hotels as they are parsed
+   * instead of holding the whole response in memory
+   */
+  streamHotelCodesList(): AsyncGenerator<HotelCodeListEntry> {
+    return this.streamArray('hotelcodelist', 'Hotels', {}, 'GET', HotelCodeListEntrySchema);
+  }
+
+  /**
+   * Stream the TBO hotel codes of a city, yielding hotels as they are parsed
+   */
+  streamTBOHotelCodesByCity(cityCode: string, isDetailedResponse: boolean = true): AsyncGenerator<HotelCodeListEntry> {
+    return this.streamArray(
+      'TBOHotelCodeList',
+      'Hotels',
+      this.hotelCodeListRequest(cityCode, isDetailedResponse),
+      'POST',
+      HotelCodeListEntrySchema
+    );
+  }
+
+  private hotelCodeListRequest(cityCode: string, isDetailedResponse: boolean): TBOHotelCodeListRequest {
+    return {
       CityCode: cityCode,
       IsDetailedResponse: isDetailedResponse.toString(),
     };
-    return this.makeRequest('TBOHotelCodeList', request, 'POST');
+  }
+
+  /**
+   * Load the country list and the city lists of the given countries into the cache
+   */
+  async warmCache(countryCodes: string[] = []): Promise<{ countries: number; cities: number }> {
+    if (!this.cache) {
+      throw new Error('Caching is not enabled, set cache in the client configuration');
+    }
+
+    const countries = this.extractCountries(await this.getCountryList());
+    const cityLists = await Promise.all(countryCodes.map(code => this.getCityList(code)));
+
+    return {
+      countries: countries.length,
+      cities: cityLists.reduce((total, response) => total + this.extractCities(response).length, 0),
+    };
+  }
+
+  /**
+   * Drop all cached static data
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.invalidate();
   }
 
   /**
@@ -80,6 +132,13 @@ export class UtilitiesClient extends TBOBaseClient {
     return response.CityList || [];
   }
 
+  /**
+   * Extract hotels from a hotel code list response
+   */
+  extractHotelCodes(response: HotelCodeListResponse): HotelCodeListEntry[] {
+    return response.Hotels || [];
+  }
+
   /**
    * Extract hotel details from response
    */
@@ -141,7 +200,7 @@ export class UtilitiesClient extends TBOBaseClient {
 
       return { country, cities };
     } catch (error) {
-      console.error(`Error getting location data for ${countryCode}:`, error);
+      this.logger.error('Error getting location data', { countryCode, error: (error as Error).message });
       return { country: null, cities: [] };
     }
   }
@@ -155,7 +214,7 @@ export class UtilitiesClient extends TBOBaseClient {
       const cities = await this.findCitiesByName(countryCode, cityName);
       
       if (cities.length === 0) {
-        console.log(`No cities found matching "${cityName}" in ${countryCode}`);
+        this.logger.info('No cities found', { cityName, countryCode });
         return [];
       }
 
@@ -164,28 +223,55 @@ export class UtilitiesClient extends TBOBaseClient {
       // Get hotel codes for this city
       const hotelCodesResponse = await this.getTBOHotelCodesByCity(city.Code);
       
-      if (hotelCodesResponse.Hotels) {
-        return hotelCodesResponse.Hotels.map((hotel: any) => hotel.HotelCode);
-      }
-      
-      return [];
+      return this.extractHotelCodes(hotelCodesResponse).map(hotel => hotel.HotelCode);
     } catch (error) {
-      console.error(`Error searching hotels in ${cityName}:`, error);
+      this.logger.error('Error searching hotels by city', { cityName, error: (error as Error).message });
       return [];
     }
   }
 
+  /**
+   * Get hotel details for any number of hotels, requesting them in batches.
+   * Codes whose batch failed or that TBO returned no details for are listed in missingCodes.
+   */
+  async getHotelDetailsInBatches(
+    hotelCodes: string[],
+    options: { batchSize?: number; concurrency?: number; language?: string } = {}
+  ): Promise<{ details: HotelDetail[]; missingCodes: string[] }> {
+    const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : 20;
+    const concurrency = options.concurrency && options.concurrency > 0 ? options.concurrency : 1;
+    const batches: string[][] = [];
+    for (let start = 0; start < hotelCodes.length; start += batchSize) {
+      batches.push(hotelCodes.slice(start, start + batchSize));
+    }
+
+    const details: HotelDetail[] = [];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < batches.length) {
+        const batch = batches[next++];
+        try {
+          const response = await this.getHotelDetails(batch.join(','), options.language);
+          details.push(...this.extractHotelDetails(response));
+        } catch (error) {
+          this.logger.error('Error getting hotel details batch', {
+            hotelCodes: batch.join(','),
+            error: (error as Error).message,
+          });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    const found = new Set(details.map(detail => detail.HotelCode));
+    return { details, missingCodes: hotelCodes.filter(code => !found.has(code)) };
+  }
+
   /**
    * Get comprehensive hotel information
    */
   async getComprehensiveHotelInfo(hotelCodes: string[]): Promise<HotelDetail[]> {
-    try {
-      const codesString = hotelCodes.slice(0, 20).join(','); // Limit to 20 hotels
-      const response = await this.getHotelDetails(codesString);
-      return this.extractHotelDetails(response);
-    } catch (error) {
-      console.error('Error getting comprehensive hotel info:', error);
-      return [];
-    }
+    const { details } = await this.getHotelDetailsInBatches(hotelCodes);
+    return details;
   }
 }
\ No newline at end of file
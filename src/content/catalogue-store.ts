@@ -0,0 +1,108 @@
+/**
+ * Local stores for the offline hotel content catalogue
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { HotelDetail } from '../types/api-types';
+
+export interface CatalogueHotel {
+  HotelCode: string;
+  HotelName: string;
+  CityCode?: string;
+  CityName?: string;
+  CountryCode?: string;
+  /** Hash of the hotel's code list entry, used to spot changes without fetching details */
+  summaryHash: string;
+  detail: HotelDetail | null;
+  /** Hash of the hotel details, used to report content changes */
+  detailHash: string | null;
+  /** ISO timestamp of the last successful Hoteldetails fetch */
+  detailsSyncedAt: string | null;
+  /** ISO timestamp of the last change to this record */
+  updatedAt: string;
+}
+
+export interface HotelCatalogueStore {
+  load(): Promise<CatalogueHotel[]>;
+  save(hotels: CatalogueHotel[]): Promise<void>;
+}
+
+/**
+ * Catalogue kept in memory, mostly for tests
+ */
+export class InMemoryCatalogueStore implements HotelCatalogueStore {
+  private hotels: CatalogueHotel[] = [];
+
+  load(): Promise<CatalogueHotel[]> {
+    return Promise.resolve(this.copy(this.hotels));
+  }
+
+  save(hotels: CatalogueHotel[]): Promise<void> {
+    this.hotels = this.copy(hotels);
+    return Promise.resolve();
+  }
+
+  private copy(hotels: CatalogueHotel[]): CatalogueHotel[] {
+    return JSON.parse(JSON.stringify(hotels)) as CatalogueHotel[];
+  }
+}
+
+/**
+ * Catalogue kept in a JSON-lines file, one hotel per line, so it can be
+ * streamed, grepped and diffed without loading it into a database
+ */
+export class JsonLinesCatalogueStore implements HotelCatalogueStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<CatalogueHotel[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const hotels: CatalogueHotel[] = [];
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim()) {
+        hotels.push(JSON.parse(line) as CatalogueHotel);
+      }
+    }
+
+    return hotels;
+  }
+
+  async save(hotels: CatalogueHotel[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write then rename so a failed sync never leaves a truncated catalogue
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    const output = fs.createWriteStream(temporary, 'utf8');
+    // Listen before the first write, so an early error fails the save instead of going unhandled
+    const failed = new Promise<never>((_, reject) => output.once('error', reject));
+    failed.catch(() => undefined);
+
+    try {
+      for (const hotel of hotels) {
+        if (!output.write(JSON.stringify(hotel) + '\n')) {
+          await Promise.race([new Promise<void>(resolve => output.once('drain', () => resolve())), failed]);
+        }
+      }
+      await Promise.race([new Promise<void>(resolve => output.end(() => resolve())), failed]);
+    } catch (error) {
+      output.destroy();
+      await fs.promises.unlink(temporary).catch(() => undefined);
+      throw error;
+    }
+
+    await fs.promises.rename(temporary, this.filePath);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Sync of TBO hotel codes and hotel details into a local catalogue
+ */
+
+import { createHash } from 'crypto';
+import { UtilitiesClient } from '../clients/utilities-client';
+import { HotelCodeListEntry, HotelDetail } from '../types/api-types';
+import { CatalogueHotel, HotelCatalogueStore } from './catalogue-store';
+
+/** The parts of a code list entry the catalogue keeps, so the full list is never held in memory */
+type ListedHotel = Pick<HotelCodeListEntry, 'HotelCode' | 'HotelName' | 'CityCode' | 'CityName' | 'CountryCode'> & {
+  summaryHash: string;
+};
+
+export interface ContentSyncProgress {
+  phase: 'codes' | 'details' | 'saving';
+  done: number;
+  total: number;
+}
+
+export interface ContentSyncOptions {
+  /** Only sync these cities; hotels of other cities in the catalogue are left as they are */
+  cityCodes?: string[];
+  /** Hotels per Hoteldetails request (default 20) */
+  batchSize?: number;
+  /** Hoteldetails requests in flight at once (default 2) */
+  concurrency?: number;
+  /** Re-fetch details older than this even when the hotel's code list entry is unchanged (default 7 days) */
+  maxDetailAgeMs?: number;
+  onProgress?: (progress: ContentSyncProgress) => void;
+}
+
+export interface ContentSyncReport {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: number;
+  /** Hotels TBO returned no details for in this run; earlier details are kept */
+  missingDetails: string[];
+  /** Hotels in the catalogue after the sync */
+  total: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export class HotelContentSync {
+  private utilities: UtilitiesClient;
+  private store: HotelCatalogueStore;
+
+  constructor(utilities: UtilitiesClient, store: HotelCatalogueStore) {
+    this.utilities = utilities;
+    this.store = store;
+  }
+
+  /**
+   * Pull the hotel code list, fetch details for new, changed and outdated hotels,
+   * and write the result to the store, reporting what was added, removed and changed
+   */
+  async sync(options: ContentSyncOptions = {}): Promise<ContentSyncReport> {
+    const startedAt = new Date().toISOString();
+    const maxDetailAgeMs = options.maxDetailAgeMs ?? 7 * 24 * 60 * 60 * 1000;
+    const cityCodes = options.cityCodes ? new Set(options.cityCodes) : null;
+
+    const existing = new Map((await this.store.load()).map(hotel => [hotel.HotelCode, hotel]));
+    const { entries, emptyCities } = await this.fetchHotelCodes(options);
+    const inScope = [...existing.values()].filter(hotel => !cityCodes || cityCodes.has(hotel.CityCode || ''));
+
+    // An empty list is far more likely an API problem than every hotel closing
+    if (entries.length === 0 && inScope.length > 0) {
+      throw new Error(`Hotel code list is empty, refusing to remove ${inScope.length} hotels from the catalogue`);
+    }
+    for (const cityCode of emptyCities) {
+      const cityHotels = inScope.filter(hotel => hotel.CityCode === cityCode).length;
+      if (cityHotels > 0) {
+        throw new Error(`Hotel code list of city ${cityCode} is empty, refusing to remove ${cityHotels} hotels from the catalogue`);
+      }
+    }
+
+    const now = Date.now();
+    const needDetails = entries
+      .filter(entry => {
+        const previous = existing.get(entry.HotelCode);
+        return !previous ||
+          previous.summaryHash !== entry.summaryHash ||
+          !previous.detailsSyncedAt ||
+          now - Date.parse(previous.detailsSyncedAt) >= maxDetailAgeMs;
+      })
+      .map(entry => entry.HotelCode);
+
+    const fetched = await this.fetchDetails(needDetails, options);
+    const syncedAt = new Date().toISOString();
+
+    const report: ContentSyncReport = {
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+      missingDetails: needDetails.filter(code => !fetched.has(code)),
+      total: 0,
+      startedAt,
+      finishedAt: startedAt,
+    };
+
+    // Keep hotels outside the synced cities; listed hotels are rebuilt below
+    const listed = new Set(entries.map(entry => entry.HotelCode));
+    const inScopeCodes = new Set(inScope.map(hotel => hotel.HotelCode));
+    const hotels: CatalogueHotel[] = [];
+    for (const hotel of existing.values()) {
+      if (listed.has(hotel.HotelCode)) {
+        continue;
+      }
+      if (inScopeCodes.has(hotel.HotelCode)) {
+        report.removed.push(hotel.HotelCode);
+        continue;
+      }
+      hotels.push(hotel);
+    }
+
+    for (const entry of entries) {
+      const previous = existing.get(entry.HotelCode);
+      const detail = fetched.get(entry.HotelCode);
+      const record = this.toRecord(entry, previous, detail, syncedAt);
+
+      if (!previous) {
+        report.added.push(entry.HotelCode);
+      } else if (record.summaryHash !== previous.summaryHash || record.detailHash !== previous.detailHash) {
+        report.changed.push(entry.HotelCode);
+      } else {
+        report.unchanged++;
+        record.updatedAt = previous.updatedAt;
+      }
+
+      hotels.push(record);
+    }
+
+    hotels.sort((a, b) => a.HotelCode.localeCompare(b.HotelCode));
+    options.onProgress?.({ phase: 'saving', done: 0, total: hotels.length });
+    await this.store.save(hotels);
+
+    report.total = hotels.length;
+    report.finishedAt = new Date().toISOString();
+    return report;
+  }
+
+  /**
+   * Stream the code list; status 201 means TBO has no hotels for the request.
+   * emptyCities lists the requested cities that returned no hotels.
+   */
+  private async fetchHotelCodes(options: ContentSyncOptions): Promise<{ entries: ListedHotel[]; emptyCities: string[] }> {
+    const entries: ListedHotel[] = [];
+    const emptyCities: string[] = [];
+
+    if (!options.cityCodes) {
+      for await (const entry of this.utilities.streamHotelCodesList()) {
+        this.addListed(entries, entry);
+      }
+      options.onProgress?.({ phase: 'codes', done: 1, total: 1 });
+      return { entries, emptyCities };
+    }
+
+    for (const [index, cityCode] of options.cityCodes.entries()) {
+      const before = entries.length;
+      for await (const entry of this.utilities.streamTBOHotelCodesByCity(cityCode, true)) {
+        this.addListed(entries, { ...entry, CityCode: entry.CityCode || cityCode });
+      }
+      if (entries.length === before) {
+        emptyCities.push(cityCode);
+      }
+      options.onProgress?.({ phase: 'codes', done: index + 1, total: options.cityCodes.length });
+    }
+
+    return { entries, emptyCities };
+  }
+
+  private addListed(entries: ListedHotel[], entry: HotelCodeListEntry): void {
+    if (!entry || !entry.HotelCode) {
+      return;
+    }
+
+    const listed: ListedHotel = { HotelCode: entry.HotelCode, HotelName: entry.HotelName, summaryHash: this.hash(entry) };
+    if (entry.CityCode) {
+      listed.CityCode = entry.CityCode;
+    }
+    if (entry.CityName) {
+      listed.CityName = entry.CityName;
+    }
+    if (entry.CountryCode) {
+      listed.CountryCode = entry.CountryCode;
+    }
+    entries.push(listed);
+  }
+
+  private async fetchDetails(hotelCodes: string[], options: ContentSyncOptions): Promise<Map<string, HotelDetail>> {
+    const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : 20;
+    const concurrency = options.concurrency && options.concurrency > 0 ? options.concurrency : 2;
+    const chunkSize = batchSize * concurrency;
+    const details = new Map<string, HotelDetail>();
+
+    for (let start = 0; start < hotelCodes.length; start += chunkSize) {
+      const result = await this.utilities.getHotelDetailsInBatches(hotelCodes.slice(start, start + chunkSize), {
+        batchSize,
+        concurrency,
+      });
+      result.details.forEach(detail => details.set(detail.HotelCode, detail));
+      options.onProgress?.({
+        phase: 'details',
+        done: Math.min(start + chunkSize, hotelCodes.length),
+        total: hotelCodes.length,
+      });
+    }
+
+    return details;
+  }
+
+  private toRecord(
+    entry: ListedHotel,
+    previous: CatalogueHotel | undefined,
+    detail: HotelDetail | undefined,
+    syncedAt: string
+  ): CatalogueHotel {
+    const record: CatalogueHotel = {
+      HotelCode: entry.HotelCode,
+      HotelName: entry.HotelName || detail?.HotelName || previous?.HotelName || '',
+      summaryHash: entry.summaryHash,
+      detail: detail || previous?.detail || null,
+      detailHash: detail ? this.hash(detail) : previous?.detailHash || null,
+      detailsSyncedAt: detail ? syncedAt : previous?.detailsSyncedAt || null,
+      updatedAt: syncedAt,
+    };
+
+    if (entry.CityCode) {
+      record.CityCode = entry.CityCode;
+    }
+    if (entry.CityName) {
+      record.CityName = entry.CityName;
+    }
+    if (entry.CountryCode) {
+      record.CountryCode = entry.CountryCode;
+    }
+
+    return record;
+  }
+
+  private hash(value: unknown): string {
+    return createHash('sha1').update(JSON.stringify(value)).digest('hex');
+  }
+}
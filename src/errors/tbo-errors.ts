@@ -0,0 +1,244 @@
+/**
+ * Error classes raised by the TBO SDK
+ */
+
+import { AxiosError } from 'axios';
+import { APIResponse, TBOError } from '../types/api-types';
+
+export interface TBOErrorDetails {
+  /** HTTP status of the response, if one was received */
+  code?: number | undefined;
+  /** Status.Code from the response body */
+  tboStatusCode?: number | undefined;
+  /** Status.Description from the response body */
+  tboStatusDescription?: string | undefined;
+  endpoint?: string | undefined;
+  response?: unknown;
+  request?: unknown;
+}
+
+/**
+ * Base class for every error raised by the SDK
+ */
+export class TBOApiError extends Error implements TBOError {
+  code?: number;
+  tboStatusCode?: number;
+  tboStatusDescription?: string;
+  endpoint?: string;
+  response?: any;
+  request?: any;
+
+  constructor(message: string, details: TBOErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+
+    if (details.code !== undefined) {
+      this.code = details.code;
+    }
+    if (details.tboStatusCode !== undefined) {
+      this.tboStatusCode = details.tboStatusCode;
+    }
+    if (details.tboStatusDescription !== undefined) {
+      this.tboStatusDescription = details.tboStatusDescription;
+    }
+    if (details.endpoint !== undefined) {
+      this.endpoint = details.endpoint;
+    }
+    this.response = details.response;
+    this.request = details.request;
+  }
+}
+
+/**
+ * The request never got a response (connection refused, reset, DNS failure)
+ */
+export class TBONetworkError extends TBOApiError {
+  /** System error code of the failed connection, e.g. ECONNREFUSED or ECONNRESET */
+  errorCode?: string;
+}
+
+/**
+ * The request timed out before a response arrived
+ */
+export class TBOTimeoutError extends TBONetworkError {}
+
+/**
+ * Credentials were missing or rejected
+ */
+export class TBOAuthenticationError extends TBOApiError {}
+
+/**
+ * TBO rejected the request as invalid
+ */
+export class TBOValidationError extends TBOApiError {}
+
+/**
+ * TBO asked us to slow down
+ */
+export class TBORateLimitError extends TBOApiError {
+  /** Delay requested by the Retry-After header, if any */
+  retryAfterMs?: number;
+}
+
+/**
+ * No rooms are available, or the selected room is no longer available
+ */
+export class TBONoAvailabilityError extends TBOApiError {}
+
+/**
+ * The fare changed between search, pre-book and book
+ */
+export class TBOPriceChangedError extends TBOApiError {}
+
+/**
+ * TBO or the underlying supplier failed to process the request
+ */
+export class TBOSupplierError extends TBOApiError {}
+
+/**
+ * The circuit breaker is open and the request was not sent
+ */
+export class TBOCircuitOpenError extends TBOApiError {
+  /** Time until the circuit lets a trial request through */
+  retryInMs?: number;
+}
+
+/**
+ * A Book call failed ambiguously and the booking could not be looked up, so it
+ * may or may not exist. Look it up by bookingReferenceId before booking again.
+ */
+export class TBOBookingStateUnknownError extends TBOApiError {
+  bookingReferenceId: string;
+  /** The error the Book call failed with */
+  cause: unknown;
+
+  constructor(message: string, details: TBOErrorDetails & { bookingReferenceId: string; cause: unknown }) {
+    super(message, details);
+    this.bookingReferenceId = details.bookingReferenceId;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * A request or response did not match its schema in strict validation mode
+ */
+export class TBOSchemaError extends TBOApiError {
+  direction: 'request' | 'response';
+  issues: Array<{ path: string; message: string }>;
+
+  constructor(
+    message: string,
+    details: TBOErrorDetails & { direction: 'request' | 'response'; issues: Array<{ path: string; message: string }> }
+  ) {
+    super(message, details);
+    this.direction = details.direction;
+    this.issues = details.issues;
+  }
+}
+
+type TBOErrorClass = new (message: string, details?: TBOErrorDetails) => TBOApiError;
+
+const PRICE_CHANGED_PATTERN = /price (has )?changed|price mismatch|fare (has )?changed/i;
+const NO_AVAILABILITY_PATTERN = /no available|not available|no longer available|sold out|no availability/i;
+
+/**
+ * Pick the error class for an HTTP status and/or TBO body status
+ */
+function classify(httpStatus: number | undefined, tboStatusCode: number | undefined, description: string): TBOErrorClass {
+  const code = tboStatusCode !== undefined && tboStatusCode !== 200 ? tboStatusCode : httpStatus;
+
+  if (code === 401 || code === 403 || httpStatus === 401 || httpStatus === 403) {
+    return TBOAuthenticationError;
+  }
+  if (code === 429 || httpStatus === 429) {
+    return TBORateLimitError;
+  }
+  if (PRICE_CHANGED_PATTERN.test(description)) {
+    return TBOPriceChangedError;
+  }
+  if (code === 201 || NO_AVAILABILITY_PATTERN.test(description)) {
+    return TBONoAvailabilityError;
+  }
+  if (code === 400 || code === 422) {
+    return TBOValidationError;
+  }
+  if (code !== undefined && code >= 500) {
+    return TBOSupplierError;
+  }
+
+  return TBOApiError;
+}
+
+/**
+ * Create a typed error from a response whose body Status.Code is not 200
+ */
+export function createStatusError(endpoint: string, response: APIResponse, httpStatus: number = 200): TBOApiError {
+  const tboStatusCode = response.Status?.Code;
+  const description = response.Status?.Description || 'No status information in response';
+  const ErrorClass = classify(httpStatus, tboStatusCode, description);
+
+  return new ErrorClass(`${endpoint} failed with TBO status ${tboStatusCode}: ${description}`, {
+    code: httpStatus,
+    tboStatusCode,
+    tboStatusDescription: description,
+    endpoint,
+    response,
+  });
+}
+
+/**
+ * Create a typed error from a failed axios request
+ */
+export function createErrorFromAxios(error: AxiosError, endpoint?: string): TBOApiError {
+  const response = error.response;
+
+  if (!response) {
+    const timedOut = error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT;
+    const ErrorClass = timedOut ? TBOTimeoutError : TBONetworkError;
+    const networkError = new ErrorClass(error.message, { endpoint, request: error.config });
+    if (error.code) {
+      networkError.errorCode = error.code;
+    }
+    return networkError;
+  }
+
+  const body = response.data as Partial<APIResponse> | undefined;
+  const tboStatusCode = body?.Status?.Code;
+  const description = body?.Status?.Description;
+  const ErrorClass = classify(response.status, tboStatusCode, description || '');
+
+  const tboError = new ErrorClass(description || error.message, {
+    code: response.status,
+    tboStatusCode,
+    tboStatusDescription: description,
+    endpoint,
+    response: response.data,
+    request: error.config,
+  });
+
+  if (tboError instanceof TBORateLimitError) {
+    const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+    if (retryAfterMs !== undefined) {
+      tboError.retryAfterMs = retryAfterMs;
+    }
+  }
+
+  return tboError;
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -61,6 +61,7 @@ async function testHotelSearch() {
           console.log(`         💰 Total Fare: ${room.TotalFare} ${hotel.Currency}`);
           console.log(`         🍽️ Meal Type: ${room.MealType}`);
           console.log(`         ↩️ Refundable: ${room.IsRefundable ? 'Yes' : 'No'}`);
+          console.log(`         📜 Cancellation: ${client.getCancellationSchedule(hotel, room).describe()}`);
           console.log(`         🎫 Booking Code: ${room.BookingCode.substring(0, 30)}...`);
         }
       }
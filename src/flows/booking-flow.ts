@@ -0,0 +1,451 @@
+/**
+ * Booking Flow - search, pre-book and book as an explicit state machine
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { HotelSearchClient } from '../clients/hotel-search-client';
+import { PreBookClient } from '../clients/prebook-client';
+import { BookingClient } from '../clients/booking-client';
+import { CancellationClient } from '../clients/cancellation-client';
+import { TBOBookingStateUnknownError } from '../errors/tbo-errors';
+import {
+  BookingGuest,
+  BookingResponse,
+  CancelResponse,
+  HotelBookRequest,
+  HotelSearchRequest,
+  HotelSearchResponse,
+  PreBookResponse,
+} from '../types/api-types';
+
+export type BookingFlowState =
+  | 'initial'
+  | 'searched'
+  | 'prebooked'
+  | 'price-changed'
+  | 'booked'
+  | 'failed'
+  | 'cancelled';
+
+export interface BookingFlowOffer {
+  bookingCode: string;
+  hotelCode: string;
+  totalFare: number;
+  currency: string;
+}
+
+export interface BookingFlowSnapshot {
+  id: string;
+  state: BookingFlowState;
+  searchRequest: HotelSearchRequest | null;
+  offers: BookingFlowOffer[];
+  selectedOffer: BookingFlowOffer | null;
+  preBook: {
+    bookingCode: string;
+    totalFare: number;
+    currency: string;
+    previousFare: number;
+  } | null;
+  booking: {
+    confirmationNumber: string;
+    bookingReferenceId: string;
+    bookingId: number;
+  } | null;
+  /**
+   * References of a Book call that was sent but whose outcome is not known yet;
+   * book() looks the booking up by them before sending Book again
+   */
+  pendingBooking: {
+    clientReferenceId: string;
+    bookingReferenceId: string;
+  } | null;
+  error: string | null;
+  history: Array<{ from: BookingFlowState; to: BookingFlowState; at: string }>;
+  updatedAt: string;
+}
+
+export interface BookingFlowTransition {
+  from: BookingFlowState;
+  to: BookingFlowState;
+  snapshot: BookingFlowSnapshot;
+}
+
+export interface BookingFlowStore {
+  load(id: string): Promise<BookingFlowSnapshot | null>;
+  save(snapshot: BookingFlowSnapshot): Promise<void>;
+}
+
+export interface BookingFlowClients {
+  search: HotelSearchClient;
+  preBook: PreBookClient;
+  booking: BookingClient;
+  cancellation?: CancellationClient;
+}
+
+const TRANSITIONS: Record<BookingFlowState, BookingFlowState[]> = {
+  'initial': ['searched', 'failed', 'cancelled'],
+  'searched': ['searched', 'prebooked', 'price-changed', 'failed', 'cancelled'],
+  'prebooked': ['searched', 'prebooked', 'price-changed', 'booked', 'failed', 'cancelled'],
+  'price-changed': ['searched', 'prebooked', 'price-changed', 'failed', 'cancelled'],
+  'booked': ['cancelled'],
+  'failed': ['searched', 'failed', 'cancelled'],
+  'cancelled': [],
+};
+
+/**
+ * Keeps snapshots in process memory
+ */
+export class InMemoryBookingFlowStore implements BookingFlowStore {
+  private snapshots = new Map<string, BookingFlowSnapshot>();
+
+  load(id: string): Promise<BookingFlowSnapshot | null> {
+    const snapshot = this.snapshots.get(id);
+    return Promise.resolve(snapshot ? this.copy(snapshot) : null);
+  }
+
+  save(snapshot: BookingFlowSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.id, this.copy(snapshot));
+    return Promise.resolve();
+  }
+
+  private copy(snapshot: BookingFlowSnapshot): BookingFlowSnapshot {
+    return JSON.parse(JSON.stringify(snapshot)) as BookingFlowSnapshot;
+  }
+}
+
+export class BookingFlow extends EventEmitter {
+  private clients: BookingFlowClients;
+  private store: BookingFlowStore;
+  private snapshot: BookingFlowSnapshot;
+
+  constructor(
+    clients: BookingFlowClients,
+    options: {
+      id?: string;
+      store?: BookingFlowStore;
+      snapshot?: BookingFlowSnapshot;
+    } = {}
+  ) {
+    super();
+    this.clients = clients;
+    this.store = options.store || new InMemoryBookingFlowStore();
+    this.snapshot = options.snapshot || {
+      id: options.id || randomUUID(),
+      state: 'initial',
+      searchRequest: null,
+      offers: [],
+      selectedOffer: null,
+      preBook: null,
+      booking: null,
+      pendingBooking: null,
+      error: null,
+      history: [],
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Resume a flow from its persisted snapshot
+   */
+  static async resume(
+    id: string,
+    clients: BookingFlowClients,
+    store: BookingFlowStore
+  ): Promise<BookingFlow> {
+    const snapshot = await store.load(id);
+
+    if (!snapshot) {
+      throw new Error(`No booking flow found with id ${id}`);
+    }
+
+    return new BookingFlow(clients, { store, snapshot });
+  }
+
+  get id(): string {
+    return this.snapshot.id;
+  }
+
+  get state(): BookingFlowState {
+    return this.snapshot.state;
+  }
+
+  /**
+   * Get a copy of the current snapshot
+   */
+  getSnapshot(): BookingFlowSnapshot {
+    return JSON.parse(JSON.stringify(this.snapshot)) as BookingFlowSnapshot;
+  }
+
+  /**
+   * Check whether the flow may move to the given state
+   */
+  canTransition(to: BookingFlowState): boolean {
+    return TRANSITIONS[this.snapshot.state].includes(to);
+  }
+
+  /**
+   * Search for availability and remember the offers returned
+   */
+  async search(request: HotelSearchRequest): Promise<HotelSearchResponse> {
+    this.assertTransition('searched');
+    this.assertNoPendingBooking();
+
+    let response: HotelSearchResponse;
+    try {
+      response = await this.clients.search.searchHotels(request);
+    } catch (error) {
+      await this.fail((error as Error).message);
+      throw error;
+    }
+
+    if (!response.Status || response.Status.Code !== 200) {
+      await this.fail(`Search failed: ${response.Status?.Description || 'No status information in response'}`);
+      return response;
+    }
+
+    const offers: BookingFlowOffer[] = [];
+    for (const hotel of response.HotelResult || []) {
+      for (const room of hotel.Rooms || []) {
+        if (room.BookingCode) {
+          offers.push({
+            bookingCode: room.BookingCode,
+            hotelCode: hotel.HotelCode,
+            totalFare: room.TotalFare,
+            currency: hotel.Currency,
+          });
+        }
+      }
+    }
+
+    await this.transition('searched', {
+      searchRequest: request,
+      offers,
+      selectedOffer: null,
+      preBook: null,
+      error: null,
+    });
+
+    return response;
+  }
+
+  /**
+   * Pre-book one of the searched offers, moving to price-changed if the fare moved
+   */
+  async preBook(bookingCode: string, paymentMode: string = 'Limit'): Promise<PreBookResponse> {
+    const offer = this.snapshot.offers.find(o => o.bookingCode === bookingCode);
+
+    if (!offer) {
+      throw new Error(`Booking code ${bookingCode} was not returned by the last search`);
+    }
+    this.assertTransition('prebooked');
+    this.assertNoPendingBooking();
+
+    let response: PreBookResponse;
+    try {
+      response = await this.clients.preBook.preBookHotel(bookingCode, paymentMode);
+    } catch (error) {
+      await this.fail((error as Error).message);
+      throw error;
+    }
+
+    const validation = this.clients.preBook.validatePreBookResponse(response);
+    if (!validation.isValid) {
+      await this.fail(validation.message);
+      return response;
+    }
+
+    const info = this.clients.preBook.extractPreBookInfo(response);
+    const totalFare = info.totalFare || 0;
+    const priceChanged = Math.abs(totalFare - offer.totalFare) >= 0.01;
+
+    await this.transition(priceChanged ? 'price-changed' : 'prebooked', {
+      selectedOffer: offer,
+      preBook: {
+        bookingCode: info.bookingCode || bookingCode,
+        totalFare,
+        currency: info.currency || offer.currency,
+        previousFare: offer.totalFare,
+      },
+      error: null,
+    });
+
+    return response;
+  }
+
+  /**
+   * Accept a changed pre-book fare so the booking can proceed
+   */
+  async acceptPriceChange(): Promise<void> {
+    if (this.snapshot.state !== 'price-changed') {
+      throw new Error(`No price change to accept in state ${this.snapshot.state}`);
+    }
+
+    await this.transition('prebooked', {});
+  }
+
+  /**
+   * Book the pre-booked offer at the pre-book fare. The references are saved
+   * before Book is sent; if the outcome is unknown (the process died, or Book
+   * failed ambiguously and the booking could not be looked up), the flow stays
+   * pre-booked and the next book() looks the booking up by the same references
+   * instead of booking again.
+   */
+  async book(
+    rooms: BookingGuest[][],
+    contact: { email: string; phone: string },
+    options: {
+      paymentMode?: HotelBookRequest['PaymentMode'];
+      clientReferenceId?: string;
+    } = {}
+  ): Promise<BookingResponse> {
+    this.assertTransition('booked');
+
+    const preBook = this.snapshot.preBook;
+    if (!preBook) {
+      throw new Error('Cannot book without a valid pre-book');
+    }
+
+    const pending = this.snapshot.pendingBooking ?? null;
+    const references = pending || this.createReferences(options.clientReferenceId);
+    if (!pending) {
+      await this.update({ pendingBooking: references });
+    }
+
+    const request: HotelBookRequest = {
+      ...this.clients.booking.createBookRequest(
+        preBook.bookingCode,
+        preBook.totalFare,
+        rooms,
+        contact,
+        { ...options, clientReferenceId: references.clientReferenceId }
+      ),
+      BookingReferenceId: references.bookingReferenceId,
+    };
+
+    let response: BookingResponse;
+    try {
+      response = await this.clients.booking.bookHotel(request, { lookupFirst: pending !== null });
+    } catch (error) {
+      // The booking may exist, so keep its references for the next book()
+      if (error instanceof TBOBookingStateUnknownError) {
+        await this.update({ error: error.message });
+      } else {
+        await this.fail((error as Error).message);
+      }
+      throw error;
+    }
+
+    const validation = this.clients.booking.validateBookingResponse(response);
+    if (!validation.isValid) {
+      await this.fail(validation.message);
+      return response;
+    }
+
+    const info = this.clients.booking.extractBookingInfo(response);
+    await this.transition('booked', {
+      booking: {
+        confirmationNumber: info.confirmationNumber || '',
+        bookingReferenceId: info.bookingReferenceId || references.bookingReferenceId,
+        bookingId: info.bookingId || 0,
+      },
+      pendingBooking: null,
+      error: null,
+    });
+
+    return response;
+  }
+
+  /**
+   * Cancel the flow; a confirmed booking is cancelled through the API first
+   */
+  async cancel(): Promise<CancelResponse | null> {
+    this.assertTransition('cancelled');
+    this.assertNoPendingBooking();
+
+    if (this.snapshot.state !== 'booked' || !this.snapshot.booking) {
+      await this.transition('cancelled', {});
+      return null;
+    }
+
+    if (!this.clients.cancellation) {
+      throw new Error('A cancellation client is required to cancel a confirmed booking');
+    }
+
+    const response = await this.clients.cancellation.cancelBooking(this.snapshot.booking.confirmationNumber);
+    const validation = this.clients.cancellation.validateCancelResponse(response);
+
+    // A failed cancellation leaves the booking in place
+    if (!validation.isValid) {
+      throw new Error(validation.message);
+    }
+
+    await this.transition('cancelled', {});
+    return response;
+  }
+
+  private assertTransition(to: BookingFlowState): void {
+    if (!this.canTransition(to)) {
+      throw new Error(`Illegal booking flow transition from ${this.snapshot.state} to ${to}`);
+    }
+  }
+
+  /**
+   * A Book call with an unknown outcome must be resolved by book() before the
+   * flow moves on, or a booking that went through would be orphaned
+   */
+  private assertNoPendingBooking(): void {
+    const pending = this.snapshot.pendingBooking;
+    if (pending) {
+      throw new Error(
+        `Booking ${pending.bookingReferenceId} may already exist; call book() again to look it up first`
+      );
+    }
+  }
+
+  private createReferences(clientReferenceId?: string): NonNullable<BookingFlowSnapshot['pendingBooking']> {
+    const referenceId = clientReferenceId || this.clients.booking.generateReferenceId();
+    return { clientReferenceId: referenceId, bookingReferenceId: referenceId };
+  }
+
+  /**
+   * Steps only fail on a definite answer, so no booking is left behind under pending references
+   */
+  private async fail(message: string): Promise<void> {
+    await this.transition('failed', { pendingBooking: null, error: message });
+  }
+
+  /**
+   * Save changes without changing state
+   */
+  private async update(
+    changes: Partial<Omit<BookingFlowSnapshot, 'id' | 'state' | 'history' | 'updatedAt'>>
+  ): Promise<void> {
+    this.snapshot = { ...this.snapshot, ...changes, updatedAt: new Date().toISOString() };
+    await this.store.save(this.snapshot);
+  }
+
+  private async transition(
+    to: BookingFlowState,
+    changes: Partial<Omit<BookingFlowSnapshot, 'id' | 'state' | 'history' | 'updatedAt'>>
+  ): Promise<void> {
+    this.assertTransition(to);
+
+    const from = this.snapshot.state;
+    const at = new Date().toISOString();
+
+    this.snapshot = {
+      ...this.snapshot,
+      ...changes,
+      state: to,
+      history: [...this.snapshot.history, { from, to, at }],
+      updatedAt: at,
+    };
+
+    await this.store.save(this.snapshot);
+
+    const event: BookingFlowTransition = { from, to, snapshot: this.getSnapshot() };
+    this.emit('transition', event);
+    this.emit(to, event);
+  }
+}
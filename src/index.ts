@@ -8,25 +8,165 @@ export * from './types/api-types';
 
 // Export all clients
 export { TBOBaseClient } from './clients/base-client';
-export { HotelSearchClient } from './clients/hotel-search-client';
+export { HotelSearchClient, MAX_HOTEL_CODES_PER_SEARCH } from './clients/hotel-search-client';
 export { UtilitiesClient } from './clients/utilities-client';
 export { PreBookClient } from './clients/prebook-client';
+export { BookingClient } from './clients/booking-client';
+export { CancellationClient } from './clients/cancellation-client';
+
+// Export errors
+export * from './errors/tbo-errors';
+
+// Export resilience
+export * from './resilience/circuit-breaker';
+export * from './resilience/request-limiter';
+export * from './resilience/retry-policy';
+
+// Export content sync
+export * from './content/catalogue-store';
+export * from './content/content-sync';
+
+// Export caching
+export * from './cache/response-cache';
+export * from './cache/stores';
+
+// Export validation
+export * from './validation/schema';
+export * from './validation/schemas';
+
+// Export transport
+export * from './transport/http-transport';
+
+// Export flows
+export * from './flows/booking-flow';
+
+// Export search
+export * from './search/destination-search';
+export * from './search/location-index';
+export * from './search/geo-index';
+export * from './search/nearby-search';
+export * from './search/stay-search';
+export * from './search/hotel-enricher';
+export * from './search/result-query';
+
+// Export policies
+export * from './policies/cancellation-policy';
+
+// Export pricing
+export * from './pricing/price-breakdown';
+
+// Export logging and recording
+export * from './logging/logger';
+export * from './recording/recorder';
+export * from './utils/redaction';
 
 // Main SDK class
-import { TBOClientConfig } from './types/api-types';
+import { HotelSearchResponse, TBOClientConfig, TBOTransport } from './types/api-types';
 import { HotelSearchClient } from './clients/hotel-search-client';
 import { UtilitiesClient } from './clients/utilities-client';
 import { PreBookClient } from './clients/prebook-client';
+import { BookingClient } from './clients/booking-client';
+import { CancellationClient } from './clients/cancellation-client';
+import { BookingFlow, BookingFlowStore } from './flows/booking-flow';
+import { CircuitBreaker } from './resilience/circuit-breaker';
+import { HttpTransport } from './transport/http-transport';
+import { MemoryCacheStore } from './cache/stores';
+import { HotelCatalogueStore } from './content/catalogue-store';
+import { HotelContentSync } from './content/content-sync';
+import { DestinationSearch, DestinationSearchParams, DestinationSearchResult } from './search/destination-search';
+import { LocationAlias, LocationIndex } from './search/location-index';
+import { HotelGeoIndex } from './search/geo-index';
+import { NearbySearch, NearbySearchParams, NearbySearchResult } from './search/nearby-search';
+import { EnrichmentOptions, EnrichmentResult, HotelEnricher } from './search/hotel-enricher';
 
 export class TBOHolidaysSDK {
   public search: HotelSearchClient;
   public utilities: UtilitiesClient;
   public preBook: PreBookClient;
+  public booking: BookingClient;
+  public cancellation: CancellationClient;
+  public transport: TBOTransport;
 
   constructor(config?: TBOClientConfig) {
-    this.search = new HotelSearchClient(config);
-    this.utilities = new UtilitiesClient(config);
-    this.preBook = new PreBookClient(config);
+    // One transport for all clients: a single connection pool, rate limiter and credentials check
+    this.transport = config?.transport || new HttpTransport(config);
+    const clientConfig: TBOClientConfig = { ...config, transport: this.transport };
+
+    // Clients share cached static data
+    if (config?.cache && !config.cache.store) {
+      clientConfig.cache = { ...config.cache, store: new MemoryCacheStore() };
+    }
+
+    this.search = new HotelSearchClient(clientConfig);
+    this.utilities = new UtilitiesClient(clientConfig);
+    this.preBook = new PreBookClient(clientConfig);
+    this.booking = new BookingClient(clientConfig);
+    this.cancellation = new CancellationClient(clientConfig);
+  }
+
+  /**
+   * Start a new search → pre-book → book flow
+   */
+  createBookingFlow(options: { id?: string; store?: BookingFlowStore } = {}): BookingFlow {
+    return new BookingFlow(this, options);
+  }
+
+  /**
+   * Resume a booking flow persisted in the given store
+   */
+  async resumeBookingFlow(id: string, store: BookingFlowStore): Promise<BookingFlow> {
+    return BookingFlow.resume(id, this, store);
+  }
+
+  /**
+   * Search availability in a city given by country and city name or code
+   */
+  async searchByDestination(params: DestinationSearchParams): Promise<DestinationSearchResult> {
+    return new DestinationSearch(this.search, this.utilities).searchByDestination(params);
+  }
+
+  /**
+   * Search availability of the indexed hotels within a radius of a point
+   */
+  async searchNearby(index: HotelGeoIndex, params: NearbySearchParams): Promise<NearbySearchResult> {
+    return new NearbySearch(this.search, index).searchNearby(params);
+  }
+
+  /**
+   * Join search results with hotel names, ratings, addresses, images and facilities
+   */
+  async enrichResults(response: HotelSearchResponse, options: EnrichmentOptions = {}): Promise<EnrichmentResult> {
+    return new HotelEnricher(this.utilities).enrich(response, options);
+  }
+
+  /**
+   * Build an autocomplete index over all countries and their cities
+   */
+  async buildLocationIndex(options: { countryCodes?: string[]; concurrency?: number; aliases?: LocationAlias[] } = {}): Promise<LocationIndex> {
+    return LocationIndex.build(this.utilities, options);
+  }
+
+  /**
+   * Create a job syncing hotel codes and details into a local catalogue
+   */
+  createContentSync(store: HotelCatalogueStore): HotelContentSync {
+    return new HotelContentSync(this.utilities, store);
+  }
+
+  /**
+   * Circuit breaker shared by all clients, or null when disabled
+   */
+  get circuitBreaker(): CircuitBreaker | null {
+    return this.search.circuitBreaker;
+  }
+
+  /**
+   * Close pooled connections held by the SDK's transport
+   */
+  destroy(): void {
+    if (this.transport instanceof HttpTransport) {
+      this.transport.destroy();
+    }
   }
 
   /**
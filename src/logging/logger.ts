@@ -0,0 +1,87 @@
+/**
+ * Loggers for the TBO SDK
+ */
+
+import { TBOLogFields, TBOLogger, TBOLogLevel } from '../types/api-types';
+import { scrubRecord } from '../utils/redaction';
+
+const LEVELS: Record<TBOLogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Logger that discards everything; the SDK default
+ */
+export const silentLogger: TBOLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger writing to the console, either as readable lines or JSON lines
+ */
+export class ConsoleLogger implements TBOLogger {
+  private level: TBOLogLevel;
+  private format: 'pretty' | 'json';
+
+  constructor(options: { level?: TBOLogLevel; format?: 'pretty' | 'json' } = {}) {
+    this.level = options.level || 'info';
+    this.format = options.format || 'pretty';
+  }
+
+  debug(message: string, fields?: TBOLogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: TBOLogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: TBOLogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: TBOLogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: TBOLogLevel, message: string, fields: TBOLogFields = {}): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    const output = level === 'debug' ? console.debug : console[level];
+
+    if (this.format === 'json') {
+      output(JSON.stringify({ time: new Date().toISOString(), level, message, ...fields }));
+      return;
+    }
+
+    const { data, ...rest } = fields;
+    const pairs = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+
+    output(`[tbo] ${level.toUpperCase()} ${message}${pairs.length > 0 ? ' ' + pairs.join(' ') : ''}`);
+    if (data !== undefined) {
+      output(JSON.stringify(data, null, 2));
+    }
+  }
+}
+
+/**
+ * Wrap a logger so every field passes through credential, payment and guest redaction
+ */
+export function withRedaction(logger: TBOLogger): TBOLogger {
+  return {
+    debug: (message, fields) => logger.debug(message, fields && scrubRecord(fields)),
+    info: (message, fields) => logger.info(message, fields && scrubRecord(fields)),
+    warn: (message, fields) => logger.warn(message, fields && scrubRecord(fields)),
+    error: (message, fields) => logger.error(message, fields && scrubRecord(fields)),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Cancellation policy engine - deadlines, penalties and policy text
+ */
+
+import { CancellationPolicy, HotelBookingDetails, Room } from '../types/api-types';
+
+export type PolicyChargeType = 'percentage' | 'fixed' | 'nights';
+
+export interface PolicyTier {
+  /** Instant the tier starts to apply */
+  from: Date;
+  chargeType: PolicyChargeType;
+  /** CancellationCharge as sent: a percentage, an amount or a number of nights */
+  amount: number;
+  /** Charge for cancelling while the tier applies, capped at the total fare */
+  penalty: number;
+  policy: CancellationPolicy;
+}
+
+export interface PolicyContext {
+  totalFare: number;
+  /** Nights of the stay, for night-based charges (default 1) */
+  nights?: number;
+  currency?: string;
+  /**
+   * IANA time zone the FromDate wall times are in, usually the hotel's
+   * (default UTC). Dates with an explicit offset are taken as they are.
+   */
+  timeZone?: string;
+}
+
+export interface PenaltyQuote {
+  charge: number;
+  refund: number;
+  currency: string | null;
+  isFree: boolean;
+  /** Tier in force, or null before the first tier starts */
+  tier: PolicyTier | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse TBO policy dates ("dd-MM-yyyy HH:mm:ss" or ISO) as timestamps,
+ * reading wall times without an offset in the given time zone
+ */
+export function parsePolicyDate(value: string, timeZone: string = 'UTC'): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  let parts: number[] | null = null;
+
+  const tbo = /^(\d{2})-(\d{2})-(\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(trimmed);
+  if (tbo) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = tbo;
+    parts = [Number(year), Number(month), Number(day), Number(hours), Number(minutes), Number(seconds)];
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/.exec(trimmed);
+  if (iso) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = iso;
+    parts = [Number(year), Number(month), Number(day), Number(hours), Number(minutes), Number(seconds)];
+  }
+
+  if (parts) {
+    const [year, month, day, hours, minutes, seconds] = parts;
+    return zonedTime(Date.UTC(year, month - 1, day, hours, minutes, seconds), timeZone);
+  }
+
+  const timestamp = Date.parse(trimmed);
+  return isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * Nights between a check-in and check-out date (default 1 when either is unreadable)
+ */
+export function nightsBetween(checkIn: string, checkOut: string): number {
+  const from = parsePolicyDate(String(checkIn).slice(0, 10));
+  const to = parsePolicyDate(String(checkOut).slice(0, 10));
+  const nights = from !== null && to !== null ? Math.round((to - from) / DAY_MS) : 0;
+  return nights > 0 ? nights : 1;
+}
+
+/**
+ * Timestamp of a wall time (given as if it were UTC) in a time zone
+ */
+function zonedTime(wallTime: number, timeZone: string): number {
+  if (timeZone === 'UTC') {
+    return wallTime;
+  }
+
+  // The zone's offset at the guess may differ from the offset at the result around DST changes
+  const guess = wallTime - zoneOffset(wallTime, timeZone);
+  const offset = zoneOffset(guess, timeZone);
+  return wallTime - offset;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(entry => entry.type === type)?.value || 0);
+  const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return wallTime - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Cancellation policies of a rate as tiers in start order. A tier applies from
+ * its start until the next one starts; before the first tier cancelling is free.
+ */
+export class CancellationSchedule {
+  public readonly tiers: PolicyTier[];
+  private context: Required<Omit<PolicyContext, 'currency'>> & { currency: string | null };
+
+  constructor(policies: CancellationPolicy[], context: PolicyContext) {
+    const timeZone = context.timeZone || 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+
+    this.context = {
+      totalFare: context.totalFare,
+      nights: context.nights && context.nights > 0 ? context.nights : 1,
+      currency: context.currency || null,
+      timeZone,
+    };
+
+    // Policies with unreadable dates are skipped; the sort is stable, so the later of two equal starts wins
+    this.tiers = (policies || [])
+      .flatMap(policy => {
+        const from = parsePolicyDate(policy.FromDate, timeZone);
+        return from === null ? [] : [this.toTier(policy, from)];
+      })
+      .sort((a, b) => a.from.getTime() - b.from.getTime());
+  }
+
+  /**
+   * Schedule for a search result room; nights come from its day rates
+   */
+  static forRoom(room: Room, options: { currency?: string; timeZone?: string } = {}): CancellationSchedule {
+    return new CancellationSchedule(room.CancelPolicies || [], {
+      totalFare: room.TotalFare,
+      nights: room.DayRates?.[0]?.length || 1,
+      ...options,
+    });
+  }
+
+  /**
+   * Schedule for pre-book or booking details
+   */
+  static forBooking(
+    details: Pick<HotelBookingDetails, 'CheckIn' | 'CheckOut'> & {
+      Price: Pick<HotelBookingDetails['Price'], 'OfferedPrice' | 'CurrencyCode'>;
+      CancellationPolicies: { CancelPolicies: CancellationPolicy[] };
+    },
+    options: { timeZone?: string } = {}
+  ): CancellationSchedule {
+    return new CancellationSchedule(details.CancellationPolicies?.CancelPolicies || [], {
+      totalFare: details.Price?.OfferedPrice || 0,
+      nights: nightsBetween(details.CheckIn, details.CheckOut),
+      ...(details.Price?.CurrencyCode ? { currency: details.Price.CurrencyCode } : {}),
+      ...options,
+    });
+  }
+
+  /**
+   * What cancelling at an instant costs and refunds
+   */
+  penaltyAt(at: Date = new Date()): PenaltyQuote {
+    const tier = this.tierAt(at.getTime());
+    const charge = tier ? tier.penalty : 0;
+
+    return {
+      charge,
+      refund: Math.round((this.context.totalFare - charge) * 100) / 100,
+      currency: this.context.currency,
+      isFree: charge === 0,
+      tier,
+    };
+  }
+
+  /**
+   * Whether cancelling at an instant is free, and until when. until is the
+   * start of the first charging tier, or null when no charge ever applies.
+   */
+  freeCancellation(at: Date = new Date()): { available: boolean; until: Date | null } {
+    if (!this.penaltyAt(at).isFree) {
+      return { available: false, until: null };
+    }
+
+    const next = this.tiers.find(tier => tier.from.getTime() > at.getTime() && tier.penalty > 0);
+    return { available: true, until: next ? next.from : null };
+  }
+
+  /**
+   * Whether cancelling at an instant refunds anything at all
+   */
+  isRefundable(at: Date = new Date()): boolean {
+    return this.penaltyAt(at).refund > 0;
+  }
+
+  /**
+   * The policy as sentences, with dates in the schedule's time zone, e.g.
+   * "Free cancellation until 12 Nov 2026, 00:00 (Asia/Dubai). From 12 Nov 2026, 00:00 (Asia/Dubai): 100% of the total (USD 930.60)."
+   * A charge starting after at is preceded by the free period before it.
+   */
+  describe(locale: string = 'en-GB', at: Date = new Date()): string {
+    const { totalFare, timeZone } = this.context;
+    const formatter = new Intl.DateTimeFormat(locale, {
+      timeZone,
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    const date = (value: Date): string => formatter.format(value);
+
+    // Consecutive tiers with the same charge read as one
+    const tiers = this.tiers.filter((tier, index) => index === 0 || tier.penalty !== this.tiers[index - 1].penalty);
+    const charging = tiers.filter(tier => tier.penalty > 0);
+
+    if (charging.length === 0) {
+      return 'Free cancellation.';
+    }
+    const freeUntilFirst = tiers[0].penalty > 0 && tiers[0].from.getTime() > at.getTime();
+    if (tiers.length === 1 && tiers[0].penalty >= totalFare && !freeUntilFirst) {
+      return `Non-refundable: cancelling costs the full amount (${this.money(totalFare)}).`;
+    }
+
+    const sentences = tiers.map((tier, index) => {
+      const next = tiers[index + 1];
+      if (tier.penalty === 0) {
+        return next ? `Free cancellation until ${date(next.from)} (${timeZone}).` : `Free cancellation from ${date(tier.from)} (${timeZone}).`;
+      }
+      return `From ${date(tier.from)} (${timeZone}): ${this.label(tier)} (${this.money(tier.penalty)}).`;
+    });
+    if (freeUntilFirst) {
+      sentences.unshift(`Free cancellation until ${date(tiers[0].from)} (${timeZone}).`);
+    }
+
+    return sentences.join(' ');
+  }
+
+  private tierAt(timestamp: number): PolicyTier | null {
+    let applied: PolicyTier | null = null;
+    for (const tier of this.tiers) {
+      if (tier.from.getTime() > timestamp) {
+        break;
+      }
+      applied = tier;
+    }
+    return applied;
+  }
+
+  private toTier(policy: CancellationPolicy, from: number): PolicyTier {
+    const { totalFare, nights } = this.context;
+    const amount = policy.CancellationCharge || 0;
+    const type = (policy.ChargeType || '').toLowerCase();
+
+    let chargeType: PolicyChargeType = 'fixed';
+    let penalty = amount;
+    if (type.startsWith('percent')) {
+      chargeType = 'percentage';
+      penalty = totalFare * amount / 100;
+    } else if (type.startsWith('night')) {
+      chargeType = 'nights';
+      penalty = totalFare / nights * amount;
+    }
+
+    return {
+      from: new Date(from),
+      chargeType,
+      amount,
+      penalty: Math.min(Math.round(penalty * 100) / 100, totalFare),
+      policy,
+    };
+  }
+
+  private label(tier: PolicyTier): string {
+    switch (tier.chargeType) {
+      case 'percentage':
+        return `${tier.amount}% of the total`;
+      case 'nights':
+        return `${tier.amount} ${tier.amount === 1 ? 'night' : 'nights'}`;
+      default:
+        return tier.penalty >= this.context.totalFare ? 'the full amount' : 'a fixed charge';
+    }
+  }
+
+  private money(amount: number): string {
+    const value = amount.toFixed(2);
+    return this.context.currency ? `${this.context.currency} ${value}` : value;
+  }
+}
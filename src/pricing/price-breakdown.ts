@@ -0,0 +1,283 @@
+/**
+ * Price breakdowns of search rooms and pre-book/booking prices
+ */
+
+import { PaxRoom, Price, Room } from '../types/api-types';
+
+export interface PriceIssue {
+  code:
+    | 'day-rates-mismatch'
+    | 'day-rates-missing'
+    | 'room-count-mismatch'
+    | 'night-count-mismatch'
+    | 'published-price-mismatch'
+    | 'offered-price-mismatch'
+    | 'rounded-price-mismatch';
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface NightlyRate {
+  /** 1-based night of the stay */
+  night: number;
+  /** yyyy-MM-dd, when the check-in date is known */
+  date: string | null;
+  basePrice: number;
+}
+
+export interface RoomFareShare {
+  /** 0-based index of the room in PaxRooms order */
+  roomIndex: number;
+  name: string;
+  occupancy: PaxRoom | null;
+  guests: number;
+  nightlyRates: NightlyRate[];
+  baseFare: number;
+  /** The room's share of the offer's tax, in proportion to its base fare */
+  tax: number;
+  totalFare: number;
+  perNight: number;
+  perGuest: number | null;
+}
+
+export interface RoomFareBreakdown {
+  currency: string;
+  baseFare: number;
+  tax: number;
+  totalFare: number;
+  nights: number;
+  guests: number;
+  perNight: number;
+  perGuest: number | null;
+  rooms: RoomFareShare[];
+  /** True when day rates and tax add up to TotalFare */
+  isConsistent: boolean;
+  issues: PriceIssue[];
+}
+
+export interface PriceBreakdown {
+  currency: string;
+  roomPrice: number;
+  taxes: { tax: number; serviceTax: number; total: number };
+  fees: { extraGuestCharge: number; childCharge: number; otherCharges: number; total: number };
+  discount: number;
+  agentMarkUp: number;
+  /** Price to the customer: room price, taxes, fees and mark-up less discount */
+  publishedPrice: number;
+  agentCommission: number;
+  tds: number;
+  /** Price to the agent: published price less commission, plus TDS */
+  offeredPrice: number;
+  nights: number;
+  rooms: number;
+  guests: number | null;
+  /** Published price per night, room and guest */
+  perNight: number;
+  perRoom: number;
+  perGuest: number | null;
+  /** True when the components add up to PublishedPrice and OfferedPrice */
+  isConsistent: boolean;
+  issues: PriceIssue[];
+}
+
+export interface BreakdownOptions {
+  /** Largest difference still treated as equal (default 0.01) */
+  tolerance?: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const guestsIn = (pax: PaxRoom): number => (pax.Adults || 0) + (pax.Children || 0);
+
+/**
+ * Break a search room (a single room or a multi-room combination) down into
+ * per-room and per-night rates, and check that its day rates and tax add up
+ * to TotalFare
+ */
+export function breakdownRoomFare(
+  room: Room,
+  options: BreakdownOptions & { currency?: string; paxRooms?: PaxRoom[]; checkIn?: string } = {}
+): RoomFareBreakdown {
+  const tolerance = options.tolerance ?? 0.01;
+  const issues: PriceIssue[] = [];
+  const names = room.Name || [];
+  const dayRates = room.DayRates || [];
+  const paxRooms = options.paxRooms || [];
+  const totalFare = room.TotalFare || 0;
+  const tax = room.TotalTax || 0;
+
+  if (dayRates.length === 0) {
+    issues.push({ code: 'day-rates-missing', message: 'No DayRates to break the fare down by night' });
+  }
+  if (paxRooms.length > 0 && dayRates.length > 0 && dayRates.length !== paxRooms.length) {
+    issues.push({
+      code: 'room-count-mismatch',
+      message: `DayRates cover ${dayRates.length} rooms but ${paxRooms.length} were requested`,
+      expected: paxRooms.length,
+      actual: dayRates.length,
+    });
+  }
+
+  const nights = dayRates.length > 0 ? dayRates[0].length : 0;
+  if (dayRates.some(rates => rates.length !== nights)) {
+    issues.push({ code: 'night-count-mismatch', message: 'Rooms have DayRates for different numbers of nights' });
+  }
+
+  // Without day rates the offer is treated as one room at its pre-tax fare
+  const baseFares = dayRates.length > 0
+    ? dayRates.map(rates => round(rates.reduce((total, rate) => total + (rate.BasePrice || 0), 0)))
+    : [round(totalFare - tax)];
+  const baseFare = round(baseFares.reduce((total, fare) => total + fare, 0));
+
+  if (dayRates.length > 0 && Math.abs(baseFare + tax - totalFare) > tolerance) {
+    issues.push({
+      code: 'day-rates-mismatch',
+      message: `DayRates (${baseFare}) plus TotalTax (${tax}) do not add up to TotalFare (${totalFare})`,
+      expected: totalFare,
+      actual: round(baseFare + tax),
+    });
+  }
+
+  // Spread the tax in proportion to base fares, leaving rounding to the last room
+  let taxLeft = tax;
+  const rooms = baseFares.map((fare, index): RoomFareShare => {
+    const last = index === baseFares.length - 1;
+    const share = last ? round(taxLeft) : round(baseFare > 0 ? tax * fare / baseFare : tax / baseFares.length);
+    taxLeft -= share;
+
+    const occupancy = paxRooms[index] || null;
+    const guests = occupancy ? guestsIn(occupancy) : 0;
+    const roomTotal = round(fare + share);
+    const rates = dayRates[index] || [];
+
+    return {
+      roomIndex: index,
+      name: names[index] || names[0] || '',
+      occupancy,
+      guests,
+      nightlyRates: rates.map((rate, night) => ({
+        night: night + 1,
+        date: options.checkIn ? addDays(options.checkIn, night) : null,
+        basePrice: rate.BasePrice || 0,
+      })),
+      baseFare: fare,
+      tax: share,
+      totalFare: roomTotal,
+      perNight: rates.length > 0 ? round(roomTotal / rates.length) : roomTotal,
+      perGuest: guests > 0 ? round(roomTotal / guests) : null,
+    };
+  });
+
+  const guests = paxRooms.reduce((total, pax) => total + guestsIn(pax), 0);
+
+  return {
+    currency: options.currency || '',
+    baseFare,
+    tax,
+    totalFare,
+    nights,
+    guests,
+    perNight: nights > 0 ? round(totalFare / nights) : totalFare,
+    perGuest: guests > 0 ? round(totalFare / guests) : null,
+    rooms,
+    isConsistent: !issues.some(issue => issue.code === 'day-rates-mismatch'),
+    issues,
+  };
+}
+
+/**
+ * Group a pre-book or booking Price into taxes, fees and commission, and check
+ * that the components add up to PublishedPrice and OfferedPrice
+ */
+export function breakdownPrice(
+  price: Partial<Price>,
+  options: BreakdownOptions & { nights?: number; rooms?: number; guests?: number } = {}
+): PriceBreakdown {
+  const tolerance = options.tolerance ?? 0.01;
+  const issues: PriceIssue[] = [];
+  const amount = (value: number | undefined): number => value || 0;
+
+  const taxes = {
+    tax: amount(price.Tax),
+    serviceTax: amount(price.ServiceTax),
+    total: round(amount(price.Tax) + amount(price.ServiceTax)),
+  };
+  const fees = {
+    extraGuestCharge: amount(price.ExtraGuestCharge),
+    childCharge: amount(price.ChildCharge),
+    otherCharges: amount(price.OtherCharges),
+    total: round(amount(price.ExtraGuestCharge) + amount(price.ChildCharge) + amount(price.OtherCharges)),
+  };
+
+  const publishedPrice = amount(price.PublishedPrice);
+  const offeredPrice = amount(price.OfferedPrice);
+  const expectedPublished = round(
+    amount(price.RoomPrice) + taxes.total + fees.total + amount(price.AgentMarkUp) - amount(price.Discount)
+  );
+  const expectedOffered = round(publishedPrice - amount(price.AgentCommission) + amount(price.TDS));
+
+  if (Math.abs(expectedPublished - publishedPrice) > tolerance) {
+    issues.push({
+      code: 'published-price-mismatch',
+      message: `Components add up to ${expectedPublished} but PublishedPrice is ${publishedPrice}`,
+      expected: expectedPublished,
+      actual: publishedPrice,
+    });
+  }
+  if (Math.abs(expectedOffered - offeredPrice) > tolerance) {
+    issues.push({
+      code: 'offered-price-mismatch',
+      message: `PublishedPrice less commission plus TDS is ${expectedOffered} but OfferedPrice is ${offeredPrice}`,
+      expected: expectedOffered,
+      actual: offeredPrice,
+    });
+  }
+  for (const [field, exact, rounded] of [
+    ['PublishedPriceRoundedOff', publishedPrice, price.PublishedPriceRoundedOff],
+    ['OfferedPriceRoundedOff', offeredPrice, price.OfferedPriceRoundedOff],
+  ] as const) {
+    if (rounded !== undefined && Math.abs(rounded - exact) >= 1) {
+      issues.push({
+        code: 'rounded-price-mismatch',
+        message: `${field} (${rounded}) is a whole unit or more away from ${exact}`,
+        expected: exact,
+        actual: rounded,
+      });
+    }
+  }
+
+  const nights = options.nights && options.nights > 0 ? options.nights : 1;
+  const rooms = options.rooms && options.rooms > 0 ? options.rooms : 1;
+  const guests = options.guests && options.guests > 0 ? options.guests : null;
+
+  return {
+    currency: price.CurrencyCode || '',
+    roomPrice: amount(price.RoomPrice),
+    taxes,
+    fees,
+    discount: amount(price.Discount),
+    agentMarkUp: amount(price.AgentMarkUp),
+    publishedPrice,
+    agentCommission: amount(price.AgentCommission),
+    tds: amount(price.TDS),
+    offeredPrice,
+    nights,
+    rooms,
+    guests,
+    perNight: round(publishedPrice / nights),
+    perRoom: round(publishedPrice / rooms),
+    perGuest: guests ? round(publishedPrice / guests) : null,
+    isConsistent: issues.length === 0,
+    issues,
+  };
+}
+
+function addDays(date: string, days: number): string | null {
+  const start = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (isNaN(start.getTime())) {
+    return null;
+  }
+  start.setUTCDate(start.getUTCDate() + days);
+  return start.toISOString().slice(0, 10);
+}
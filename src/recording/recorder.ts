@@ -0,0 +1,192 @@
+/**
+ * Record/replay of TBO traffic to cassette files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { scrubRecord } from '../utils/redaction';
+
+export interface RecordedInteraction {
+  request: {
+    method: string;
+    endpoint: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: RecordedInteraction[];
+}
+
+const RECORDERS = new Map<string, TrafficRecorder>();
+
+export class TrafficRecorder {
+  private cassettePath: string;
+  private cassette: Cassette;
+  private replayed = new Set<number>();
+
+  private constructor(cassettePath: string) {
+    this.cassettePath = cassettePath;
+    this.cassette = this.load();
+  }
+
+  /**
+   * Get the recorder for a cassette file, shared by every client using it
+   */
+  static forCassette(cassettePath: string): TrafficRecorder {
+    const resolved = path.resolve(cassettePath);
+    let recorder = RECORDERS.get(resolved);
+
+    if (!recorder) {
+      recorder = new TrafficRecorder(resolved);
+      RECORDERS.set(resolved, recorder);
+    }
+
+    return recorder;
+  }
+
+  get interactions(): RecordedInteraction[] {
+    return this.cassette.interactions;
+  }
+
+  /**
+   * Append a scrubbed request/response pair and write the cassette to disk
+   */
+  record(response: AxiosResponse): void {
+    const config = response.config;
+
+    this.cassette.interactions.push({
+      request: {
+        method: (config.method || 'get').toUpperCase(),
+        endpoint: this.endpointOf(config),
+        headers: scrubRecord(this.plainHeaders(config.headers)),
+        body: scrubRecord(this.parseBody(config.data)),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.plainHeaders(response.headers),
+        body: scrubRecord(response.data as unknown),
+      },
+      recordedAt: new Date().toISOString(),
+    });
+
+    this.save();
+  }
+
+  /**
+   * Axios adapter serving recorded responses instead of calling the API.
+   *
+   * Requests are matched on method, endpoint and scrubbed body first, then on
+   * method and endpoint alone, each interaction being served once in recorded order.
+   */
+  adapter = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method || 'get').toUpperCase();
+    const endpoint = this.endpointOf(config);
+    const body = JSON.stringify(scrubRecord(this.parseBody(config.data)));
+
+    const candidates = this.cassette.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) =>
+        !this.replayed.has(index) &&
+        interaction.request.method === method &&
+        interaction.request.endpoint === endpoint
+      );
+
+    const match = candidates.find(({ interaction }) => JSON.stringify(interaction.request.body) === body) || candidates[0];
+
+    if (!match) {
+      return Promise.reject(new AxiosError(
+        `No recorded interaction for ${method} ${endpoint} in ${this.cassettePath}`,
+        AxiosError.ERR_NETWORK,
+        config
+      ));
+    }
+
+    this.replayed.add(match.index);
+
+    const recorded = match.interaction.response;
+    const response: AxiosResponse = {
+      data: recorded.body,
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus;
+    if (validateStatus && !validateStatus(recorded.status)) {
+      return Promise.reject(new AxiosError(
+        `Request failed with status code ${recorded.status}`,
+        recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response
+      ));
+    }
+
+    return Promise.resolve(response);
+  };
+
+  /**
+   * Serve the cassette from the beginning again
+   */
+  rewind(): void {
+    this.replayed.clear();
+  }
+
+  private load(): Cassette {
+    if (!fs.existsSync(this.cassettePath)) {
+      return { version: 1, interactions: [] };
+    }
+
+    return JSON.parse(fs.readFileSync(this.cassettePath, 'utf8')) as Cassette;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(this.cassette, null, 2));
+  }
+
+  private endpointOf(config: InternalAxiosRequestConfig): string {
+    return (config.url || '').replace(/^\/+/, '').split('?')[0];
+  }
+
+  private parseBody(data: unknown): unknown {
+    if (typeof data !== 'string') {
+      return data ?? null;
+    }
+
+    try {
+      return JSON.parse(data) as unknown;
+    } catch {
+      return data;
+    }
+  }
+
+  private plainHeaders(headers: unknown): Record<string, string> {
+    const plain: Record<string, string> = {};
+    const source = headers && typeof (headers as { toJSON?: unknown }).toJSON === 'function'
+      ? (headers as { toJSON(): Record<string, unknown> }).toJSON()
+      : (headers as Record<string, unknown>) || {};
+
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined && value !== null && key.toLowerCase() !== 'set-cookie') {
+        plain[key] = String(value);
+      }
+    }
+
+    return plain;
+  }
+}
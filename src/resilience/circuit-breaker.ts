@@ -0,0 +1,114 @@
+/**
+ * Circuit breaker that fails fast while TBO is down
+ */
+
+import { EventEmitter } from 'events';
+import { TBOCircuitBreakerConfig, TBOCircuitState } from '../types/api-types';
+
+export interface CircuitStateChange {
+  from: TBOCircuitState;
+  to: TBOCircuitState;
+  failures: number;
+}
+
+/**
+ * Counts consecutive failures. After failureThreshold of them the circuit opens
+ * and requests are refused until resetTimeoutMs has passed; then a single trial
+ * request is let through, which closes the circuit on success or re-opens it.
+ *
+ * Emits 'state-change' with a CircuitStateChange on every transition.
+ */
+export class CircuitBreaker extends EventEmitter {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private currentState: TBOCircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(config: TBOCircuitBreakerConfig = {}) {
+    super();
+    this.failureThreshold = config.failureThreshold && config.failureThreshold > 0 ? config.failureThreshold : 5;
+    this.resetTimeoutMs = config.resetTimeoutMs ?? 30000;
+  }
+
+  get state(): TBOCircuitState {
+    return this.currentState;
+  }
+
+  get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a trial request through
+   */
+  get retryInMs(): number {
+    if (this.currentState !== 'open') {
+      return 0;
+    }
+
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  /**
+   * Whether a request may be sent now. Moves an expired open circuit to half-open
+   * and reserves its single trial request for the caller.
+   */
+  tryAcquire(): boolean {
+    if (this.currentState === 'open') {
+      if (this.retryInMs > 0) {
+        return false;
+      }
+      this.setState('half-open');
+    }
+
+    if (this.currentState === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+
+    if (this.currentState !== 'closed') {
+      this.setState('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.currentState === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.currentState !== 'open') {
+        this.setState('open');
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and forget recorded failures
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+
+    if (this.currentState !== 'closed') {
+      this.setState('closed');
+    }
+  }
+
+  private setState(to: TBOCircuitState): void {
+    const change: CircuitStateChange = { from: this.currentState, to, failures: this.consecutiveFailures };
+    this.currentState = to;
+    this.emit('state-change', change);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Client-side rate limiting and concurrency control for TBO requests
+ */
+
+import { TBOLimitRule, TBORateLimitConfig, TBORequestLimiter } from '../types/api-types';
+
+interface QueuedRequest {
+  endpoint: string;
+  start: () => void;
+}
+
+/**
+ * Token bucket plus in-flight counter for one rule
+ */
+class Lane {
+  private rate: number;
+  private capacity: number;
+  private maxConcurrent: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  inFlight = 0;
+
+  constructor(rule: TBOLimitRule) {
+    this.rate = rule.requestsPerSecond && rule.requestsPerSecond > 0 ? rule.requestsPerSecond : Infinity;
+    this.capacity = rule.burst && rule.burst > 0 ? rule.burst : Math.max(1, this.rate === Infinity ? 1 : this.rate);
+    this.maxConcurrent = rule.maxConcurrent && rule.maxConcurrent > 0 ? rule.maxConcurrent : Infinity;
+    this.tokens = this.capacity;
+  }
+
+  refill(now: number): void {
+    if (this.rate === Infinity) {
+      return;
+    }
+
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    this.refilledAt = now;
+  }
+
+  canStart(): boolean {
+    return this.inFlight < this.maxConcurrent && (this.rate === Infinity || this.tokens >= 1);
+  }
+
+  /**
+   * Time until a token is available, 0 if one is available or the lane is not rate limited
+   */
+  waitMs(): number {
+    if (this.rate === Infinity || this.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+
+  take(): void {
+    this.inFlight++;
+    if (this.rate !== Infinity) {
+      this.tokens -= 1;
+    }
+  }
+}
+
+/**
+ * Queues requests until both the overall limit and the limit for their endpoint
+ * allow them. Requests start in the order they were scheduled, except that a request
+ * held back by its endpoint's limit does not block requests to other endpoints.
+ */
+export class RequestLimiter implements TBORequestLimiter {
+  private overall: Lane;
+  private endpoints = new Map<string, Lane>();
+  private queue: QueuedRequest[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(config: TBORateLimitConfig = {}) {
+    this.overall = new Lane(config);
+
+    for (const [endpoint, rule] of Object.entries(config.endpoints || {})) {
+      this.endpoints.set(endpoint, new Lane(rule));
+    }
+  }
+
+  /**
+   * Requests waiting for a slot
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Requests currently running
+   */
+  get inFlight(): number {
+    return this.overall.inFlight;
+  }
+
+  schedule<T>(endpoint: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        endpoint,
+        start: () => {
+          const lanes = this.lanesFor(endpoint);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              lanes.forEach(lane => lane.inFlight--);
+              this.drain();
+            });
+        },
+      });
+      this.drain();
+    });
+  }
+
+  private lanesFor(endpoint: string): Lane[] {
+    const lane = this.endpoints.get(endpoint);
+    return lane ? [this.overall, lane] : [this.overall];
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    this.overall.refill(now);
+    this.endpoints.forEach(lane => lane.refill(now));
+
+    let waitMs = Infinity;
+    for (let i = 0; i < this.queue.length;) {
+      const request = this.queue[i];
+      const lanes = this.lanesFor(request.endpoint);
+
+      if (lanes.every(lane => lane.canStart())) {
+        lanes.forEach(lane => lane.take());
+        this.queue.splice(i, 1);
+        request.start();
+        continue;
+      }
+
+      // Requests blocked only by concurrency are started again when one finishes
+      const tokenWait = Math.max(...lanes.map(lane => lane.waitMs()));
+      if (tokenWait > 0) {
+        waitMs = Math.min(waitMs, tokenWait);
+      }
+      i++;
+    }
+
+    if (waitMs !== Infinity && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Per-operation retry policies for TBO requests
+ */
+
+import { TBORetryPolicy } from '../types/api-types';
+
+export const DEFAULT_RETRY_POLICY: Required<TBORetryPolicy> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/**
+ * Operations that must not be re-sent blindly: a retried Book can double-book
+ * and a retried Cancel can hit a booking already being cancelled. Book recovers
+ * through its reference id instead (see BookingClient.bookHotel).
+ */
+export const DEFAULT_OPERATION_RETRY_POLICIES: Record<string, TBORetryPolicy> = {
+  Book: { maxRetries: 0 },
+  Cancel: { maxRetries: 0 },
+};
+
+/**
+ * Resolve the policy for an endpoint from the defaults and the client configuration
+ */
+export function resolveRetryPolicy(
+  endpoint: string,
+  basePolicy: TBORetryPolicy = {},
+  operationPolicies: Record<string, TBORetryPolicy> = {}
+): Required<TBORetryPolicy> {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...basePolicy,
+    ...DEFAULT_OPERATION_RETRY_POLICIES[endpoint],
+    ...operationPolicies[endpoint],
+  };
+}
+
+/**
+ * Whether a failed attempt may be retried under a policy
+ */
+export function isRetryable(policy: Required<TBORetryPolicy>, status: number | undefined): boolean {
+  if (status === undefined) {
+    return policy.retryOnNetworkError;
+  }
+
+  return policy.retryOnStatus.includes(status);
+}
+
+/**
+ * Delay before a retry: exponential backoff with full jitter, or the server's
+ * Retry-After when it sent one. Returns null when Retry-After exceeds maxDelayMs,
+ * since waiting that long is better left to the caller.
+ */
+export function computeRetryDelay(
+  policy: Required<TBORetryPolicy>,
+  attempt: number,
+  retryAfterMs?: number
+): number | null {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
@@ -0,0 +1,142 @@
+/**
+ * Destination search - availability for a city given by name, in one call
+ */
+
+import { HotelSearchClient } from '../clients/hotel-search-client';
+import { UtilitiesClient } from '../clients/utilities-client';
+import { BatchedSearchResult, City, Country } from '../types/api-types';
+import { normalizeName } from '../utils/text';
+import { createStaySearchRequest, StaySearchParams } from './stay-search';
+
+export interface DestinationSearchParams extends StaySearchParams {
+  /** Country code (e.g. AE) or name */
+  country: string;
+  /** City code or name; matching ignores case and accents */
+  city: string;
+  /** Throw on an ambiguous country or city (default) or return the candidates */
+  onAmbiguous?: 'error' | 'candidates';
+}
+
+export type DestinationSearchResult =
+  | {
+    status: 'ok';
+    country: Country;
+    city: City;
+    /** Hotel codes TBO lists for the city */
+    hotelCodes: number;
+    search: BatchedSearchResult;
+  }
+  | {
+    status: 'ambiguous';
+    level: 'country';
+    candidates: Country[];
+  }
+  | {
+    status: 'ambiguous';
+    level: 'city';
+    country: Country;
+    candidates: City[];
+  };
+
+/**
+ * Thrown when a country or city matches nothing, or several entries when
+ * ambiguity is not allowed; candidates lists the matches, if any
+ */
+export class DestinationResolutionError extends Error {
+  public readonly reason: 'not-found' | 'ambiguous';
+  public readonly candidates: Array<Country | City>;
+
+  constructor(message: string, reason: 'not-found' | 'ambiguous', candidates: Array<Country | City> = []) {
+    super(message);
+    this.name = 'DestinationResolutionError';
+    this.reason = reason;
+    this.candidates = candidates;
+  }
+}
+
+export class DestinationSearch {
+  private search: HotelSearchClient;
+  private utilities: UtilitiesClient;
+
+  constructor(search: HotelSearchClient, utilities: UtilitiesClient) {
+    this.search = search;
+    this.utilities = utilities;
+  }
+
+  /**
+   * Resolve the country and city, gather the city's hotel codes and search their availability
+   */
+  async searchByDestination(params: DestinationSearchParams): Promise<DestinationSearchResult> {
+    const countries = await this.matchCountries(params.country);
+    if (countries.length > 1) {
+      if (params.onAmbiguous === 'candidates') {
+        return { status: 'ambiguous', level: 'country', candidates: countries };
+      }
+      throw new DestinationResolutionError(
+        `"${params.country}" matches ${countries.length} countries: ${countries.map(entry => entry.Name).join(', ')}`,
+        'ambiguous',
+        countries
+      );
+    }
+
+    const country = countries[0];
+    const cities = this.utilities.extractCities(await this.utilities.getCityList(country.Code));
+    const matches = this.match(cities, params.city);
+
+    if (matches.length === 0) {
+      throw new DestinationResolutionError(`No city matching "${params.city}" in ${country.Name}`, 'not-found');
+    }
+    if (matches.length > 1) {
+      if (params.onAmbiguous === 'candidates') {
+        return { status: 'ambiguous', level: 'city', country, candidates: matches };
+      }
+      throw new DestinationResolutionError(
+        `"${params.city}" matches ${matches.length} cities in ${country.Name}: ${matches.map(city => city.Name).join(', ')}`,
+        'ambiguous',
+        matches
+      );
+    }
+
+    const city = matches[0];
+    const hotelCodes: string[] = [];
+    for await (const hotel of this.utilities.streamTBOHotelCodesByCity(city.Code, false)) {
+      hotelCodes.push(hotel.HotelCode);
+    }
+
+    const search = await this.search.searchHotelsInBatches(createStaySearchRequest(params), hotelCodes, params.batch);
+
+    return { status: 'ok', country, city, hotelCodes: hotelCodes.length, search };
+  }
+
+  /**
+   * Countries matching a query; throws when there are none
+   */
+  private async matchCountries(query: string): Promise<Country[]> {
+    const countries = this.utilities.extractCountries(await this.utilities.getCountryList());
+    const matches = this.match(countries, query);
+
+    if (matches.length === 0) {
+      throw new DestinationResolutionError(`No country matching "${query}"`, 'not-found');
+    }
+
+    return matches;
+  }
+
+  /**
+   * An exact code or name match wins; otherwise every entry whose name contains the query matches
+   */
+  private match<T extends { Code: string; Name: string }>(entries: T[], query: string): T[] {
+    const wanted = normalizeName(query);
+    const byCode = entries.filter(entry => normalizeName(entry.Code) === wanted);
+    if (byCode.length > 0) {
+      return byCode;
+    }
+
+    const byName = entries.filter(entry => normalizeName(entry.Name) === wanted);
+    if (byName.length > 0) {
+      return byName;
+    }
+
+    return wanted ? entries.filter(entry => normalizeName(entry.Name).includes(wanted)) : [];
+  }
+}
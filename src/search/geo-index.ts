@@ -0,0 +1,195 @@
+/**
+ * Spatial index of hotels by latitude and longitude
+ */
+
+import { HotelDetail } from '../types/api-types';
+import { CatalogueHotel } from '../content/catalogue-store';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoBoundingBox {
+  north: number;
+  south: number;
+  /** West edge; greater than east when the box crosses the antimeridian */
+  west: number;
+  east: number;
+}
+
+export interface GeoHotel extends GeoPoint {
+  hotelCode: string;
+  hotelName: string;
+}
+
+export interface GeoMatch extends GeoHotel {
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Cell size in degrees, about 11 km north to south */
+const CELL_DEGREES = 0.1;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Hotels bucketed into a grid of 0.1° cells, answering radius and
+ * bounding-box queries without scanning every hotel
+ */
+export class HotelGeoIndex {
+  private cells = new Map<string, GeoHotel[]>();
+  private count = 0;
+
+  constructor(hotels: GeoHotel[] = []) {
+    hotels.forEach(hotel => this.add(hotel));
+  }
+
+  /**
+   * Index hotel details; hotels without usable coordinates are skipped
+   */
+  static fromDetails(details: HotelDetail[]): HotelGeoIndex {
+    const index = new HotelGeoIndex();
+    details.forEach(detail => index.add({
+      hotelCode: detail.HotelCode,
+      hotelName: detail.HotelName,
+      latitude: Number(detail.Latitude),
+      longitude: Number(detail.Longitude),
+    }));
+    return index;
+  }
+
+  /**
+   * Index the hotels of a content catalogue that have details
+   */
+  static fromCatalogue(hotels: CatalogueHotel[]): HotelGeoIndex {
+    return HotelGeoIndex.fromDetails(hotels.flatMap(hotel => hotel.detail ? [hotel.detail] : []));
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a hotel, returning false when its coordinates are missing or out of range
+   */
+  add(hotel: GeoHotel): boolean {
+    const { latitude, longitude } = hotel;
+    // TBO sends 0,0 for hotels it has no coordinates for
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || (latitude === 0 && longitude === 0)) {
+      return false;
+    }
+
+    const key = this.cellKey(this.row(latitude), this.column(longitude));
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(hotel);
+    } else {
+      this.cells.set(key, [hotel]);
+    }
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Hotels within radiusKm of a point, nearest first
+   */
+  withinRadius(center: GeoPoint, radiusKm: number, limit?: number): GeoMatch[] {
+    const latitudeSpan = radiusKm / 111.32;
+    const cosine = Math.cos(center.latitude * Math.PI / 180);
+    // Near the poles every longitude is within reach
+    const longitudeSpan = cosine > 0.01 ? Math.min(180, latitudeSpan / cosine) : 180;
+
+    const box: GeoBoundingBox = {
+      north: Math.min(90, center.latitude + latitudeSpan),
+      south: Math.max(-90, center.latitude - latitudeSpan),
+      west: this.wrap(center.longitude - longitudeSpan),
+      east: this.wrap(center.longitude + longitudeSpan),
+    };
+    if (longitudeSpan >= 180) {
+      box.west = -180;
+      box.east = 180;
+    }
+
+    const matches = this.candidates(box)
+      .map(hotel => ({ ...hotel, distanceKm: distanceKm(center, hotel) }))
+      .filter(match => match.distanceKm <= radiusKm);
+    return this.sorted(matches, limit);
+  }
+
+  /**
+   * Hotels inside a bounding box, nearest to `from` (default the box centre) first
+   */
+  withinBoundingBox(box: GeoBoundingBox, options: { from?: GeoPoint; limit?: number } = {}): GeoMatch[] {
+    const from = options.from || {
+      latitude: (box.north + box.south) / 2,
+      longitude: this.wrap(box.west + this.longitudeWidth(box) / 2),
+    };
+
+    const matches = this.candidates(box)
+      .filter(hotel => hotel.latitude <= box.north && hotel.latitude >= box.south && this.inLongitudes(box, hotel.longitude))
+      .map(hotel => ({ ...hotel, distanceKm: distanceKm(from, hotel) }));
+    return this.sorted(matches, options.limit);
+  }
+
+  private candidates(box: GeoBoundingBox): GeoHotel[] {
+    const columns: number[] = [];
+    const first = this.column(box.west);
+    const total = Math.round(360 / CELL_DEGREES);
+    const width = Math.min(total - 1, Math.ceil(this.longitudeWidth(box) / CELL_DEGREES) + 1);
+    for (let offset = 0; offset <= width; offset++) {
+      columns.push((first + offset) % total);
+    }
+
+    const hotels: GeoHotel[] = [];
+    for (let row = this.row(box.south); row <= this.row(box.north); row++) {
+      for (const column of columns) {
+        hotels.push(...(this.cells.get(this.cellKey(row, column)) || []));
+      }
+    }
+    return hotels;
+  }
+
+  private sorted(matches: GeoMatch[], limit?: number): GeoMatch[] {
+    matches.sort((a, b) => a.distanceKm - b.distanceKm || a.hotelCode.localeCompare(b.hotelCode));
+    return limit !== undefined ? matches.slice(0, limit) : matches;
+  }
+
+  private longitudeWidth(box: GeoBoundingBox): number {
+    return box.west <= box.east ? box.east - box.west : 360 - box.west + box.east;
+  }
+
+  private inLongitudes(box: GeoBoundingBox, longitude: number): boolean {
+    return box.west <= box.east
+      ? longitude >= box.west && longitude <= box.east
+      : longitude >= box.west || longitude <= box.east;
+  }
+
+  private wrap(longitude: number): number {
+    return ((longitude + 540) % 360) - 180;
+  }
+
+  private row(latitude: number): number {
+    return Math.floor((latitude + 90) / CELL_DEGREES);
+  }
+
+  private column(longitude: number): number {
+    return Math.floor((longitude + 180) / CELL_DEGREES) % Math.round(360 / CELL_DEGREES);
+  }
+
+  private cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
+  }
+}
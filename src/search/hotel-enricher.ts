@@ -0,0 +1,115 @@
+/**
+ * Enrichment of search results with static hotel content
+ */
+
+import { UtilitiesClient } from '../clients/utilities-client';
+import { HotelDetail, HotelSearchResponse, Room } from '../types/api-types';
+
+export interface HotelContent {
+  name: string;
+  starRating: number;
+  address: string;
+  city: string;
+  country: string;
+  description: string;
+  facilities: string[];
+  images: HotelDetail['HotelImages'];
+  latitude: number;
+  longitude: number;
+  checkInTime: string;
+  checkOutTime: string;
+}
+
+export interface EnrichedHotel {
+  hotelCode: string;
+  currency: string;
+  rooms: Room[];
+  /** null when TBO returned no details for the hotel */
+  content: HotelContent | null;
+}
+
+export interface EnrichmentOptions {
+  /** Hotels per Hoteldetails request (default 20) */
+  batchSize?: number;
+  /** Hoteldetails requests in flight at once (default 2) */
+  concurrency?: number;
+  language?: string;
+  /** Details already at hand, e.g. from a content catalogue; only the rest are fetched */
+  knownDetails?: Map<string, HotelDetail>;
+}
+
+export interface EnrichmentResult {
+  /** Hotels in the order of the search response, with or without content */
+  hotels: EnrichedHotel[];
+  /** Hotel codes no content was found for */
+  missingContent: string[];
+}
+
+export class HotelEnricher {
+  private utilities: UtilitiesClient;
+
+  constructor(utilities: UtilitiesClient) {
+    this.utilities = utilities;
+  }
+
+  /**
+   * Join the hotels of a search response with their details, fetched in batches.
+   * Codes are sorted before batching, so with caching enabled a repeated
+   * results page is served from the Hoteldetails cache.
+   */
+  async enrich(response: HotelSearchResponse, options: EnrichmentOptions = {}): Promise<EnrichmentResult> {
+    const results = response.HotelResult || [];
+    const details = new Map<string, HotelDetail>();
+    const toFetch: string[] = [];
+
+    for (const code of new Set(results.map(hotel => hotel.HotelCode))) {
+      const known = options.knownDetails?.get(code);
+      if (known) {
+        details.set(code, known);
+      } else {
+        toFetch.push(code);
+      }
+    }
+
+    if (toFetch.length > 0) {
+      const fetched = await this.utilities.getHotelDetailsInBatches(toFetch.sort(), {
+        batchSize: options.batchSize ?? 20,
+        concurrency: options.concurrency ?? 2,
+        ...(options.language ? { language: options.language } : {}),
+      });
+      fetched.details.forEach(detail => details.set(detail.HotelCode, detail));
+    }
+
+    const hotels = results.map(hotel => {
+      const detail = details.get(hotel.HotelCode);
+      return {
+        hotelCode: hotel.HotelCode,
+        currency: hotel.Currency,
+        rooms: hotel.Rooms || [],
+        content: detail ? this.toContent(detail) : null,
+      };
+    });
+
+    return {
+      hotels,
+      missingContent: [...new Set(hotels.filter(hotel => !hotel.content).map(hotel => hotel.hotelCode))],
+    };
+  }
+
+  private toContent(detail: HotelDetail): HotelContent {
+    return {
+      name: detail.HotelName,
+      starRating: detail.StarRating,
+      address: detail.Address,
+      city: detail.City,
+      country: detail.Country,
+      description: detail.Description,
+      facilities: detail.Facilities || [],
+      images: detail.HotelImages || [],
+      latitude: detail.Latitude,
+      longitude: detail.Longitude,
+      checkInTime: detail.CheckInTime,
+      checkOutTime: detail.CheckOutTime,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * In-memory autocomplete index over TBO countries and cities
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UtilitiesClient } from '../clients/utilities-client';
+import { City, Country } from '../types/api-types';
+import { normalizeName } from '../utils/text';
+
+export interface LocationAlias {
+  alias: string;
+  countryCode: string;
+  /** City the alias stands for; a country alias when omitted */
+  city?: string;
+}
+
+export interface LocationMatch {
+  type: 'country' | 'city';
+  code: string;
+  name: string;
+  countryCode: string;
+  countryName: string;
+  /** Alias the query matched, when it did not match the name itself */
+  alias?: string;
+  /** Higher is better: exact 100, prefix 80, word prefix 60, substring 40, typo 30 or less */
+  score: number;
+}
+
+export interface LocationSearchOptions {
+  /** Most matches to return (default 10) */
+  limit?: number;
+  types?: Array<'country' | 'city'>;
+  /** Only return cities of this country */
+  countryCode?: string;
+}
+
+export interface LocationIndexData {
+  version: 1;
+  builtAt: string;
+  countries: Country[];
+  cities: City[];
+  aliases: LocationAlias[];
+}
+
+/** Former and colloquial names not in TBO's lists */
+export const DEFAULT_LOCATION_ALIASES: LocationAlias[] = [
+  { alias: 'UAE', countryCode: 'AE' },
+  { alias: 'Emirates', countryCode: 'AE' },
+  { alias: 'UK', countryCode: 'GB' },
+  { alias: 'Britain', countryCode: 'GB' },
+  { alias: 'England', countryCode: 'GB' },
+  { alias: 'USA', countryCode: 'US' },
+  { alias: 'America', countryCode: 'US' },
+  { alias: 'Turkey', countryCode: 'TR' },
+  { alias: 'Holland', countryCode: 'NL' },
+  { alias: 'NYC', countryCode: 'US', city: 'New York' },
+  { alias: 'LA', countryCode: 'US', city: 'Los Angeles' },
+  { alias: 'Vegas', countryCode: 'US', city: 'Las Vegas' },
+  { alias: 'Bombay', countryCode: 'IN', city: 'Mumbai' },
+  { alias: 'Madras', countryCode: 'IN', city: 'Chennai' },
+  { alias: 'Calcutta', countryCode: 'IN', city: 'Kolkata' },
+  { alias: 'Bengaluru', countryCode: 'IN', city: 'Bangalore' },
+  { alias: 'Bangalore', countryCode: 'IN', city: 'Bengaluru' },
+  { alias: 'Delhi', countryCode: 'IN', city: 'New Delhi' },
+  { alias: 'Peking', countryCode: 'CN', city: 'Beijing' },
+  { alias: 'Saigon', countryCode: 'VN', city: 'Ho Chi Minh City' },
+  { alias: 'Constantinople', countryCode: 'TR', city: 'Istanbul' },
+];
+
+type IndexEntry = {
+  location: Omit<LocationMatch, 'alias' | 'score'>;
+  /** Normalized name first, then normalized aliases */
+  keys: string[];
+  aliases: string[];
+};
+
+/**
+ * Autocomplete over countries and cities. Matching ignores case and accents,
+ * ranks exact and prefix matches above substrings, tolerates small typos and
+ * knows common aliases. Build it once, then save and load it as JSON.
+ */
+export class LocationIndex {
+  private data: LocationIndexData;
+  private entries: IndexEntry[];
+
+  constructor(data: LocationIndexData) {
+    this.data = data;
+    this.entries = this.createEntries(data);
+  }
+
+  /**
+   * Build an index from CountryList and the CityList of every country, or of the given countries
+   */
+  static async build(
+    utilities: UtilitiesClient,
+    options: { countryCodes?: string[]; concurrency?: number; aliases?: LocationAlias[] } = {}
+  ): Promise<LocationIndex> {
+    const countries = utilities.extractCountries(await utilities.getCountryList());
+    const countryCodes = options.countryCodes || countries.map(country => country.Code);
+    const concurrency = options.concurrency && options.concurrency > 0 ? options.concurrency : 4;
+
+    const cities: City[] = [];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < countryCodes.length) {
+        const countryCode = countryCodes[next++];
+        const response = await utilities.getCityList(countryCode);
+        // Status 201 means TBO lists no cities for the country
+        if (response.Status?.Code === 200) {
+          cities.push(...utilities.extractCities(response).map(city => ({ ...city, CountryCode: city.CountryCode || countryCode })));
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, countryCodes.length) }, worker));
+
+    return new LocationIndex({
+      version: 1,
+      builtAt: new Date().toISOString(),
+      countries,
+      cities: cities.sort((a, b) => a.Code.localeCompare(b.Code)),
+      aliases: [...DEFAULT_LOCATION_ALIASES, ...(options.aliases || [])],
+    });
+  }
+
+  /**
+   * Load an index saved with save()
+   */
+  static async load(filePath: string): Promise<LocationIndex> {
+    const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as LocationIndexData;
+    if (data.version !== 1) {
+      throw new Error(`Unsupported location index version ${String(data.version)} in ${filePath}`);
+    }
+    return new LocationIndex(data);
+  }
+
+  async save(filePath: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+
+    // Write then rename so readers never see a half-written index
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(this.data));
+    await fs.promises.rename(temporary, filePath);
+  }
+
+  toJSON(): LocationIndexData {
+    return this.data;
+  }
+
+  get size(): { countries: number; cities: number } {
+    return { countries: this.data.countries.length, cities: this.data.cities.length };
+  }
+
+  /**
+   * Countries and cities matching what the user has typed so far, best first
+   */
+  search(query: string, options: LocationSearchOptions = {}): LocationMatch[] {
+    const wanted = normalizeName(query);
+    if (!wanted) {
+      return [];
+    }
+
+    const limit = options.limit && options.limit > 0 ? options.limit : 10;
+    const matches: LocationMatch[] = [];
+
+    for (const entry of this.entries) {
+      const { location } = entry;
+      if (options.types && !options.types.includes(location.type)) {
+        continue;
+      }
+      if (options.countryCode && (location.type !== 'city' || location.countryCode !== options.countryCode)) {
+        continue;
+      }
+
+      // Country codes match exactly only, since two letters are a substring of too many names
+      let best = location.type === 'country' && location.code.toLowerCase() === wanted ? 100 : 0;
+      let alias: string | undefined;
+      entry.keys.forEach((key, index) => {
+        const score = this.score(wanted, key);
+        if (score > best) {
+          best = score;
+          alias = index === 0 ? undefined : entry.aliases[index - 1];
+        }
+      });
+
+      if (best > 0) {
+        matches.push(alias ? { ...location, alias, score: best } : { ...location, score: best });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+
+  private score(query: string, key: string): number {
+    if (key === query) {
+      return 100;
+    }
+    if (key.startsWith(query)) {
+      return 80;
+    }
+    if (key.split(/[\s\-']/).some(word => word.startsWith(query))) {
+      return 60;
+    }
+    if (key.includes(query)) {
+      return 40;
+    }
+
+    // Typos: compare with the start of the key, since the user may not have finished typing
+    if (query.length < 4) {
+      return 0;
+    }
+    const allowed = query.length >= 8 ? 2 : 1;
+    const distance = Math.min(
+      this.distance(query, key.slice(0, query.length), allowed),
+      this.distance(query, key.slice(0, query.length + 1), allowed),
+      this.distance(query, key.slice(0, query.length - 1), allowed)
+    );
+    return distance <= allowed ? 30 - distance * 10 : 0;
+  }
+
+  /**
+   * Edit distance counting swapped neighbours as one edit, giving up above max
+   */
+  private distance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) {
+      return max + 1;
+    }
+
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          value = Math.min(value, beforePrevious[j - 2] + 1);
+        }
+        current.push(value);
+        rowMin = Math.min(rowMin, value);
+      }
+      if (rowMin > max) {
+        return max + 1;
+      }
+      beforePrevious = previous;
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  private createEntries(data: LocationIndexData): IndexEntry[] {
+    const countryNames = new Map(data.countries.map(country => [country.Code, country.Name]));
+    const aliasesOf = new Map<string, string[]>();
+    for (const alias of data.aliases) {
+      const key = alias.city ? `${alias.countryCode}:${normalizeName(alias.city)}` : alias.countryCode;
+      aliasesOf.set(key, [...(aliasesOf.get(key) || []), alias.alias]);
+    }
+
+    const entry = (type: LocationMatch['type'], code: string, name: string, countryCode: string, aliasKey: string): IndexEntry => {
+      const aliases = aliasesOf.get(aliasKey) || [];
+      return {
+        location: { type, code, name, countryCode, countryName: countryNames.get(countryCode) || countryCode },
+        keys: [normalizeName(name), ...aliases.map(normalizeName)],
+        aliases,
+      };
+    };
+
+    return [
+      ...data.countries.map(country => entry('country', country.Code, country.Name, country.Code, country.Code)),
+      ...data.cities.map(city => entry('city', city.Code, city.Name, city.CountryCode, `${city.CountryCode}:${normalizeName(city.Name)}`)),
+    ];
+  }
+}
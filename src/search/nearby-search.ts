@@ -0,0 +1,51 @@
+/**
+ * Nearby search - availability of hotels around a point
+ */
+
+import { HotelSearchClient } from '../clients/hotel-search-client';
+import { BatchedSearchResult, HotelResult } from '../types/api-types';
+import { GeoMatch, GeoPoint, HotelGeoIndex } from './geo-index';
+import { createStaySearchRequest, StaySearchParams } from './stay-search';
+
+export interface NearbySearchParams extends StaySearchParams, GeoPoint {
+  radiusKm: number;
+  /** Search only the nearest hotels in the radius */
+  maxHotels?: number;
+}
+
+export interface NearbySearchResult {
+  /** Available hotels, nearest first */
+  hotels: Array<{ hotel: HotelResult; distanceKm: number }>;
+  /** Hotels in the radius that were searched */
+  nearby: GeoMatch[];
+  search: BatchedSearchResult;
+}
+
+export class NearbySearch {
+  private search: HotelSearchClient;
+  private index: HotelGeoIndex;
+
+  constructor(search: HotelSearchClient, index: HotelGeoIndex) {
+    this.search = search;
+    this.index = index;
+  }
+
+  /**
+   * Find indexed hotels within the radius and search their availability
+   */
+  async searchNearby(params: NearbySearchParams): Promise<NearbySearchResult> {
+    const nearby = this.index.withinRadius(params, params.radiusKm, params.maxHotels);
+    const search = await this.search.searchHotelsInBatches(
+      createStaySearchRequest(params),
+      nearby.map(match => match.hotelCode),
+      params.batch
+    );
+
+    const distances = new Map(nearby.map(match => [match.hotelCode, match.distanceKm]));
+    const hotels = (search.response.HotelResult || [])
+      .map(hotel => ({ hotel, distanceKm: distances.get(hotel.HotelCode) ?? Infinity }))
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+
+    return { hotels, nearby, search };
+  }
+}
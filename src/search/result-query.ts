@@ -0,0 +1,264 @@
+/**
+ * Filtering, sorting and pagination of search results
+ */
+
+import { createHash } from 'crypto';
+import { HotelSearchResponse, Room } from '../types/api-types';
+import { distanceKm, GeoPoint } from './geo-index';
+import { EnrichedHotel } from './hotel-enricher';
+
+export type ResultSortKey = 'price' | 'stars' | 'distance' | 'name';
+
+export interface ResultQueryCriteria {
+  minPrice?: number;
+  maxPrice?: number;
+  mealTypes?: string[];
+  refundable?: boolean;
+  withTransfers?: boolean;
+  stars?: number[];
+  facilities?: string[];
+  distanceFrom?: GeoPoint;
+  sort?: { by: ResultSortKey; direction: 'asc' | 'desc' };
+}
+
+export type QueryableHotel = EnrichedHotel & { distanceKm?: number };
+
+export interface QueriedHotel extends QueryableHotel {
+  /** Lowest TotalFare of the rooms matching the query */
+  lowestFare: number;
+}
+
+export interface ResultPage {
+  hotels: QueriedHotel[];
+  /** Hotels matching the query across all pages */
+  total: number;
+  /** Pass to page() for the following page; null on the last page */
+  nextCursor: string | null;
+}
+
+interface Cursor {
+  query: string;
+  value: number | string;
+  hotelCode: string;
+}
+
+/**
+ * Immutable query over search results: every method returns a new query,
+ * so a base query can be shared and refined. Room filters (price, meal type,
+ * refundable, transfers) drop non-matching rooms and hotels left without rooms;
+ * hotel filters (stars, facilities) need enriched content.
+ */
+export class HotelResultQuery {
+  private hotels: QueryableHotel[];
+  private criteria: ResultQueryCriteria;
+
+  constructor(hotels: QueryableHotel[], criteria: ResultQueryCriteria = {}) {
+    this.hotels = hotels;
+    this.criteria = criteria;
+  }
+
+  /**
+   * Query a search response without hotel content
+   */
+  static fromResponse(response: HotelSearchResponse): HotelResultQuery {
+    return new HotelResultQuery((response.HotelResult || []).map(hotel => ({
+      hotelCode: hotel.HotelCode,
+      currency: hotel.Currency,
+      rooms: hotel.Rooms || [],
+      content: null,
+    })));
+  }
+
+  priceBetween(min: number, max: number = Infinity): HotelResultQuery {
+    return this.with({ minPrice: min, maxPrice: max });
+  }
+
+  /**
+   * Keep rooms with any of the meal types; no meal types clears the filter
+   */
+  mealType(...mealTypes: string[]): HotelResultQuery {
+    return mealTypes.length > 0 ? this.with({ mealTypes }) : this.without('mealTypes');
+  }
+
+  refundable(refundable: boolean = true): HotelResultQuery {
+    return this.with({ refundable });
+  }
+
+  withTransfers(withTransfers: boolean = true): HotelResultQuery {
+    return this.with({ withTransfers });
+  }
+
+  /**
+   * Keep hotels with any of the star ratings; no ratings clears the filter
+   */
+  stars(...stars: number[]): HotelResultQuery {
+    return stars.length > 0 ? this.with({ stars }) : this.without('stars');
+  }
+
+  /**
+   * Keep hotels offering all of the facilities, matched case-insensitively within facility names
+   */
+  facility(...facilities: string[]): HotelResultQuery {
+    return this.with({ facilities: [...(this.criteria.facilities || []), ...facilities] });
+  }
+
+  /**
+   * Measure distances from a point using the hotels' content coordinates,
+   * for hotels that do not carry a distanceKm already
+   */
+  distanceFrom(point: GeoPoint): HotelResultQuery {
+    return this.with({ distanceFrom: point });
+  }
+
+  sortBy(by: ResultSortKey, direction: 'asc' | 'desc' = by === 'stars' ? 'desc' : 'asc'): HotelResultQuery {
+    return this.with({ sort: { by, direction } });
+  }
+
+  getCriteria(): ResultQueryCriteria {
+    return { ...this.criteria };
+  }
+
+  /**
+   * All matching hotels in query order
+   */
+  all(): QueriedHotel[] {
+    return this.run();
+  }
+
+  /**
+   * One page of matching hotels. Cursors point after the last hotel shown rather
+   * than at an offset, so pages stay consistent when results are refreshed.
+   */
+  page(options: { limit?: number; cursor?: string | null } = {}): ResultPage {
+    const limit = options.limit && options.limit > 0 ? options.limit : 20;
+    const hotels = this.run();
+
+    let start = 0;
+    if (options.cursor) {
+      const cursor = this.decodeCursor(options.cursor);
+      const index = hotels.findIndex(hotel => this.compare(hotel, cursor) > 0);
+      start = index === -1 ? hotels.length : index;
+    }
+
+    const pageHotels = hotels.slice(start, start + limit);
+    const last = pageHotels[pageHotels.length - 1];
+    return {
+      hotels: pageHotels,
+      total: hotels.length,
+      nextCursor: last && start + limit < hotels.length ? this.encodeCursor(last) : null,
+    };
+  }
+
+  private with(criteria: ResultQueryCriteria): HotelResultQuery {
+    return new HotelResultQuery(this.hotels, { ...this.criteria, ...criteria });
+  }
+
+  private without(key: keyof ResultQueryCriteria): HotelResultQuery {
+    const criteria = { ...this.criteria };
+    delete criteria[key];
+    return new HotelResultQuery(this.hotels, criteria);
+  }
+
+  private run(): QueriedHotel[] {
+    const { criteria } = this;
+    const facilities = (criteria.facilities || []).map(facility => facility.toLowerCase());
+    const results: QueriedHotel[] = [];
+
+    for (const hotel of this.hotels) {
+      if (criteria.stars && (!hotel.content || !criteria.stars.includes(hotel.content.starRating))) {
+        continue;
+      }
+      if (facilities.length > 0) {
+        const offered = (hotel.content?.facilities || []).map(facility => facility.toLowerCase());
+        if (!facilities.every(wanted => offered.some(facility => facility.includes(wanted)))) {
+          continue;
+        }
+      }
+
+      const rooms = hotel.rooms.filter(room => this.matchesRoom(room));
+      if (rooms.length === 0) {
+        continue;
+      }
+
+      const queried: QueriedHotel = { ...hotel, rooms, lowestFare: Math.min(...rooms.map(room => room.TotalFare)) };
+      if (criteria.distanceFrom && queried.distanceKm === undefined && hotel.content) {
+        queried.distanceKm = distanceKm(criteria.distanceFrom, hotel.content);
+      }
+      results.push(queried);
+    }
+
+    return results.sort((a, b) => this.compare(a, this.cursorOf(b)));
+  }
+
+  private matchesRoom(room: Room): boolean {
+    const { criteria } = this;
+    return (criteria.minPrice === undefined || room.TotalFare >= criteria.minPrice) &&
+      (criteria.maxPrice === undefined || room.TotalFare <= criteria.maxPrice) &&
+      (!criteria.mealTypes || criteria.mealTypes.some(mealType => mealType.toLowerCase() === (room.MealType || '').toLowerCase())) &&
+      (criteria.refundable === undefined || room.IsRefundable === criteria.refundable) &&
+      (criteria.withTransfers === undefined || room.WithTransfers === criteria.withTransfers);
+  }
+
+  /**
+   * Order of a hotel relative to a cursor position; ties are broken by hotel code
+   */
+  private compare(hotel: QueriedHotel, cursor: Omit<Cursor, 'query'>): number {
+    const value = this.sortValue(hotel);
+    let order = 0;
+    if (typeof value === 'string' || typeof cursor.value === 'string') {
+      order = String(value).localeCompare(String(cursor.value));
+    } else if (value !== cursor.value) {
+      order = value < cursor.value ? -1 : 1;
+    }
+    if (this.criteria.sort?.direction === 'desc') {
+      order = -order;
+    }
+    return order || hotel.hotelCode.localeCompare(cursor.hotelCode);
+  }
+
+  private sortValue(hotel: QueriedHotel): number | string {
+    switch (this.criteria.sort?.by) {
+      case 'stars':
+        return hotel.content?.starRating ?? 0;
+      case 'distance':
+        // Hotels without a distance go last in either direction
+        return hotel.distanceKm ?? (this.criteria.sort.direction === 'desc' ? -1 : Number.MAX_VALUE);
+      case 'name':
+        return hotel.content?.name ?? hotel.hotelCode;
+      case 'price':
+      default:
+        return hotel.lowestFare;
+    }
+  }
+
+  private cursorOf(hotel: QueriedHotel): Omit<Cursor, 'query'> {
+    return { value: this.sortValue(hotel), hotelCode: hotel.hotelCode };
+  }
+
+  /**
+   * Cursors carry a fingerprint of the query so they cannot be replayed against another one
+   */
+  private fingerprint(): string {
+    const c = this.criteria;
+    const canonical = [c.minPrice, c.maxPrice, c.mealTypes, c.refundable, c.withTransfers, c.stars, c.facilities, c.distanceFrom, c.sort];
+    return createHash('sha1').update(JSON.stringify(canonical)).digest('hex').slice(0, 12);
+  }
+
+  private encodeCursor(hotel: QueriedHotel): string {
+    const cursor: Cursor = { query: this.fingerprint(), ...this.cursorOf(hotel) };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(encoded: string): Cursor {
+    let cursor: Cursor;
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as Cursor;
+    } catch {
+      throw new Error('Invalid result cursor');
+    }
+    if (cursor.query !== this.fingerprint()) {
+      throw new Error('Result cursor belongs to a different query');
+    }
+    return cursor;
+  }
+}
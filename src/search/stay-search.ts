@@ -0,0 +1,42 @@
+/**
+ * Stay parameters shared by the destination and nearby searches
+ */
+
+import { BatchedSearchOptions, HotelSearchRequest, SearchFilters } from '../types/api-types';
+
+export interface StaySearchParams {
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{
+    adults: number;
+    children?: number;
+    childrenAges?: number[];
+  }>;
+  guestNationality?: string;
+  filters?: SearchFilters;
+  responseTime?: number;
+  batch?: BatchedSearchOptions;
+}
+
+/**
+ * Search request for a stay, without hotel codes
+ */
+export function createStaySearchRequest(params: StaySearchParams): Omit<HotelSearchRequest, 'HotelCodes'> {
+  return {
+    CheckIn: params.checkIn,
+    CheckOut: params.checkOut,
+    GuestNationality: params.guestNationality || 'AE',
+    PaxRooms: params.rooms.map(room => ({
+      Adults: room.adults,
+      Children: room.children || 0,
+      ChildrenAges: room.childrenAges || [],
+    })),
+    ResponseTime: params.responseTime || 25.0,
+    IsDetailedResponse: true,
+    Filters: params.filters || {
+      Refundable: false,
+      NoOfRooms: 0,
+      MealType: 'All',
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Standalone fake TBO server: npm run fake-server
+ */
+
+import { ConsoleLogger } from '../logging/logger';
+import { FakeTBOServer } from './fake-server';
+
+const logger = new ConsoleLogger();
+
+const server = new FakeTBOServer({
+  port: Number(process.env.FAKE_TBO_PORT || 5050),
+  ...(process.env.TBO_USERNAME ? { username: process.env.TBO_USERNAME } : {}),
+  ...(process.env.TBO_PASSWORD ? { password: process.env.TBO_PASSWORD } : {}),
+});
+
+server.start().then(baseURL => {
+  logger.info(`Fake TBO server listening on ${baseURL}`, { hint: `set TBO_BASE_URL=${baseURL} to use it` });
+}).catch((error: Error) => {
+  logger.error('Failed to start fake TBO server', { error: error.message });
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  void server.stop().then(() => process.exit(0));
+});
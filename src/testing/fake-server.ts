@@ -0,0 +1,693 @@
+/**
+ * Fake TBO server for offline development and tests
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import {
+  BookingDetailRequest,
+  BookingsByDateRequest,
+  CancellationPolicy,
+  CancelRequest,
+  CityListRequest,
+  CustomerDetails,
+  HotelBookingDetails,
+  HotelBookRequest,
+  HotelDetail,
+  HotelDetailsRequest,
+  HotelSearchRequest,
+  PaxRoom,
+  PreBookRequest,
+  Price,
+  Room,
+  SearchFilters,
+  TBOHotelCodeListRequest,
+} from '../types/api-types';
+import { DEFAULT_FAKE_FIXTURES, FakeHotelFixture, FakeTBOFixtures } from './fixtures';
+
+export type FakeTBOScenarioType = 'sold-out' | 'price-change' | 'error' | 'slow';
+
+export interface FakeTBOScenario {
+  type: FakeTBOScenarioType;
+  /** Endpoint the scenario applies to; defaults depend on the scenario type */
+  endpoint?: string;
+  /** Number of matching requests affected; unlimited when omitted */
+  times?: number;
+  /** HTTP status for 'error' scenarios (default 500) */
+  status?: number;
+  /** Delay for 'slow' scenarios (default 5000 ms) */
+  delayMs?: number;
+  /** Fare multiplier for 'price-change' scenarios (default 1.1) */
+  priceFactor?: number;
+}
+
+export interface FakeTBOServerOptions {
+  port?: number;
+  host?: string;
+  username?: string;
+  password?: string;
+  fixtures?: FakeTBOFixtures;
+}
+
+export interface FakeTBORequestLog {
+  endpoint: string;
+  method: string;
+  body: FakeRequestBody;
+  at: string;
+}
+
+interface FakeOffer {
+  bookingCode: string;
+  hotel: FakeHotelFixture;
+  room: FakeHotelFixture['rooms'][number];
+  checkIn: string;
+  checkOut: string;
+  paxRooms: PaxRoom[];
+  totalFare: number;
+  totalTax: number;
+  cancelPolicies: CancellationPolicy[];
+  preBookFare: number | null;
+}
+
+interface FakeBooking {
+  offer: FakeOffer;
+  confirmationNumber: string;
+  bookingId: number;
+  bookingReferenceId: string;
+  clientReferenceId: string;
+  invoiceNumber: string;
+  status: 'Confirmed' | 'Cancelled';
+  totalFare: number;
+  customerDetails: CustomerDetails[];
+  createdAt: Date;
+}
+
+/** Request body as received; handlers read it as the endpoint's request, with any field missing */
+type FakeRequestBody = Record<string, unknown>;
+
+interface FakeResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const SCENARIO_DEFAULT_ENDPOINTS: Record<FakeTBOScenarioType, string[] | null> = {
+  'sold-out': ['search', 'prebook', 'book'],
+  'price-change': ['prebook'],
+  'error': null,
+  'slow': null,
+};
+
+export class FakeTBOServer {
+  public readonly requests: FakeTBORequestLog[] = [];
+
+  private server: Server | null = null;
+  private options: FakeTBOServerOptions;
+  private fixtures: FakeTBOFixtures;
+  private scenarios: Array<FakeTBOScenario & { remaining: number }> = [];
+  private offers = new Map<string, FakeOffer>();
+  private bookings = new Map<string, FakeBooking>();
+  private nextBookingId = 1;
+
+  constructor(options: FakeTBOServerOptions = {}) {
+    this.options = options;
+    this.fixtures = options.fixtures || DEFAULT_FAKE_FIXTURES;
+  }
+
+  /**
+   * Start listening and resolve with the base URL to pass as TBOClientConfig.baseURL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.baseURL;
+    }
+
+    const server = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error: Error) => {
+        this.send(res, { status: 500, body: this.status(500, error.message) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port || 0, this.options.host || '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    return this.baseURL;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  get baseURL(): string {
+    if (!this.server) {
+      throw new Error('Fake TBO server is not running');
+    }
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${address.address}:${address.port}/TBOHolidays_HotelAPI`;
+  }
+
+  /**
+   * Script a scenario for upcoming requests
+   */
+  addScenario(scenario: FakeTBOScenario): this {
+    this.scenarios.push({ ...scenario, remaining: scenario.times ?? Infinity });
+    return this;
+  }
+
+  clearScenarios(): void {
+    this.scenarios = [];
+  }
+
+  /**
+   * Forget scenarios, offers, bookings and logged requests
+   */
+  reset(): void {
+    this.clearScenarios();
+    this.offers.clear();
+    this.bookings.clear();
+    this.requests.length = 0;
+    this.nextBookingId = 1;
+  }
+
+  /**
+   * Handle a request without going through HTTP
+   */
+  async handleRequest(endpoint: string, method: string, body: FakeRequestBody = {}): Promise<FakeResult> {
+    const name = endpoint.replace(/^\/+/, '').split('/').pop()?.toLowerCase() || '';
+    this.requests.push({ endpoint: name, method, body, at: new Date().toISOString() });
+
+    const scenarios = this.takeScenarios(name);
+
+    for (const scenario of scenarios.filter(s => s.type === 'slow')) {
+      await new Promise(resolve => setTimeout(resolve, scenario.delayMs ?? 5000));
+    }
+
+    const error = scenarios.find(s => s.type === 'error');
+    if (error) {
+      const status = error.status || 500;
+      return { status, body: this.status(status, status >= 500 ? 'Internal server error' : 'Request failed') };
+    }
+
+    const soldOut = scenarios.some(s => s.type === 'sold-out');
+    const priceChange = scenarios.find(s => s.type === 'price-change');
+
+    switch (name) {
+      case 'search':
+        return this.search(body as Partial<HotelSearchRequest>, soldOut);
+      case 'prebook':
+        return this.preBook(body as Partial<PreBookRequest>, soldOut, priceChange ? priceChange.priceFactor ?? 1.1 : 1);
+      case 'book':
+        return this.book(body as Partial<HotelBookRequest>, soldOut);
+      case 'bookingdetail':
+        return this.bookingDetail(body as Partial<BookingDetailRequest>);
+      case 'bookingdetailsbasedondate':
+        return this.bookingsByDate(body as Partial<BookingsByDateRequest>);
+      case 'cancel':
+        return this.cancel(body as Partial<CancelRequest>);
+      case 'countrylist':
+        return this.ok({ CountryList: this.fixtures.countries });
+      case 'citylist':
+        return this.ok({
+          CityList: this.fixtures.cities.filter(city => city.CountryCode === (body as Partial<CityListRequest>).CountryCode),
+        });
+      case 'hoteldetails':
+        return this.hotelDetails(body as Partial<HotelDetailsRequest>);
+      case 'hotelcodelist':
+        return this.ok({ Hotels: this.fixtures.hotels.map(hotel => this.hotelCodeEntry(hotel)) });
+      case 'tbohotelcodelist':
+        return this.ok({
+          Hotels: this.fixtures.hotels
+            .filter(hotel => hotel.cityCode === String((body as Partial<TBOHotelCodeListRequest>).CityCode))
+            .map(hotel => this.hotelCodeEntry(hotel)),
+        });
+      default:
+        return { status: 404, body: this.status(404, `Unknown endpoint ${endpoint}`) };
+    }
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (!this.isAuthorized(req.headers.authorization)) {
+      this.send(res, { status: 401, body: this.status(401, 'Access Credentials is incorrect') });
+      return;
+    }
+
+    let body: FakeRequestBody = Object.fromEntries(url.searchParams.entries());
+    const raw = await this.readBody(req);
+    if (raw) {
+      try {
+        body = { ...body, ...(JSON.parse(raw) as FakeRequestBody) };
+      } catch {
+        this.send(res, { status: 400, body: this.status(400, 'Invalid JSON') });
+        return;
+      }
+    }
+
+    this.send(res, await this.handleRequest(url.pathname, req.method || 'GET', body));
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    if (!this.options.username && !this.options.password) {
+      return true;
+    }
+
+    const expected = Buffer.from(`${this.options.username || ''}:${this.options.password || ''}`).toString('base64');
+    return header === `Basic ${expected}`;
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, result: FakeResult): void {
+    const payload = JSON.stringify(result.body);
+    res.writeHead(result.status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+
+  private takeScenarios(endpoint: string): FakeTBOScenario[] {
+    const matched: FakeTBOScenario[] = [];
+
+    for (const scenario of this.scenarios) {
+      const endpoints = scenario.endpoint
+        ? [scenario.endpoint.toLowerCase()]
+        : SCENARIO_DEFAULT_ENDPOINTS[scenario.type];
+
+      if (scenario.remaining > 0 && (!endpoints || endpoints.includes(endpoint))) {
+        scenario.remaining--;
+        matched.push(scenario);
+      }
+    }
+
+    this.scenarios = this.scenarios.filter(scenario => scenario.remaining > 0);
+    return matched;
+  }
+
+  private search(body: Partial<HotelSearchRequest>, soldOut: boolean): FakeResult {
+    const { CheckIn: checkIn, CheckOut: checkOut } = body;
+    const paxRooms: PaxRoom[] = Array.isArray(body.PaxRooms) ? body.PaxRooms : [];
+    const nights = this.nightsBetween(checkIn, checkOut);
+
+    if (!checkIn || !checkOut || nights <= 0 || paxRooms.length === 0) {
+      return this.ok({}, 400, 'CheckIn, CheckOut and PaxRooms are required');
+    }
+
+    const codes = String(body.HotelCodes || '').split(',').map(code => code.trim()).filter(Boolean);
+    const hotels = this.fixtures.hotels.filter(hotel => codes.includes(hotel.detail.HotelCode));
+    const filters: Partial<SearchFilters> = body.Filters || {};
+
+    const results = soldOut ? [] : hotels.map(hotel => ({
+      HotelCode: hotel.detail.HotelCode,
+      Currency: hotel.currency,
+      Rooms: hotel.rooms
+        .filter(room => !filters.Refundable || room.refundable)
+        .filter(room => !filters.MealType || filters.MealType === 'All' || filters.MealType === room.mealType)
+        .map((room, index) => this.createOffer(hotel, room, index, checkIn, checkOut, paxRooms, nights)),
+    })).filter(hotel => hotel.Rooms.length > 0);
+
+    if (results.length === 0) {
+      return this.ok({}, 201, 'No Available rooms for given criteria');
+    }
+
+    return this.ok({ HotelResult: results });
+  }
+
+  private createOffer(
+    hotel: FakeHotelFixture,
+    room: FakeHotelFixture['rooms'][number],
+    index: number,
+    checkIn: string,
+    checkOut: string,
+    paxRooms: PaxRoom[],
+    nights: number
+  ): Room {
+    const dayRates = paxRooms.map(pax => {
+      const nightly = this.round(hotel.baseRate * room.rateFactor * (1 + 0.25 * (pax.Adults - 1) + 0.1 * (pax.Children || 0)));
+      return Array.from({ length: nights }, () => ({ BasePrice: nightly }));
+    });
+    const base = dayRates.reduce((sum, rates) => sum + rates.reduce((total, rate) => total + rate.BasePrice, 0), 0);
+    const totalTax = this.round(base * 0.1);
+    const totalFare = this.round(base + totalTax);
+    const bookingCode = `${hotel.detail.HotelCode}!TB!${index + 1}!TB!${randomUUID()}`;
+    const cancelPolicies = this.cancelPolicies(room.refundable, checkIn);
+
+    this.offers.set(bookingCode, {
+      bookingCode,
+      hotel,
+      room,
+      checkIn,
+      checkOut,
+      paxRooms,
+      totalFare,
+      totalTax,
+      cancelPolicies,
+      preBookFare: null,
+    });
+
+    return {
+      Name: paxRooms.map(() => room.name),
+      BookingCode: bookingCode,
+      Inclusion: room.inclusion,
+      DayRates: dayRates,
+      TotalFare: totalFare,
+      TotalTax: totalTax,
+      RoomPromotion: [],
+      CancelPolicies: cancelPolicies,
+      MealType: room.mealType,
+      IsRefundable: room.refundable,
+      WithTransfers: room.withTransfers,
+    };
+  }
+
+  private preBook(body: Partial<PreBookRequest>, soldOut: boolean, priceFactor: number): FakeResult {
+    const offer = this.offers.get(body.BookingCode || '');
+
+    if (!offer) {
+      return this.ok({}, 400, 'Invalid BookingCode');
+    }
+    if (soldOut) {
+      return this.ok({}, 400, 'Room no longer available');
+    }
+
+    offer.preBookFare = this.round(offer.totalFare * priceFactor);
+    return this.ok({ HotelBookingDetails: this.bookingDetails(offer, offer.preBookFare) });
+  }
+
+  private book(body: Partial<HotelBookRequest>, soldOut: boolean): FakeResult {
+    const existing = body.BookingReferenceId
+      ? [...this.bookings.values()].find(booking => booking.bookingReferenceId === body.BookingReferenceId)
+      : undefined;
+    if (existing) {
+      return this.ok({ BookingDetails: this.bookingResponseDetails(existing) });
+    }
+
+    const offer = this.offers.get(body.BookingCode || '');
+    if (!offer || offer.preBookFare === null) {
+      return this.ok({}, 400, 'BookingCode has not been pre-booked');
+    }
+    if (soldOut) {
+      return this.ok({}, 400, 'Room no longer available');
+    }
+    if (Math.abs(Number(body.TotalFare) - offer.preBookFare) >= 0.01) {
+      return this.ok({}, 400, `Price mismatch: expected ${offer.preBookFare}`);
+    }
+    if (!Array.isArray(body.CustomerDetails) || body.CustomerDetails.length !== offer.paxRooms.length) {
+      return this.ok({}, 400, `CustomerDetails must contain ${offer.paxRooms.length} room(s)`);
+    }
+
+    const bookingId = this.nextBookingId++;
+    const booking: FakeBooking = {
+      offer,
+      confirmationNumber: `FAKE${String(bookingId).padStart(6, '0')}`,
+      bookingId,
+      bookingReferenceId: body.BookingReferenceId || randomUUID(),
+      clientReferenceId: body.ClientReferenceId || '',
+      invoiceNumber: `INV-${String(bookingId).padStart(6, '0')}`,
+      status: 'Confirmed',
+      totalFare: offer.preBookFare,
+      customerDetails: body.CustomerDetails,
+      createdAt: new Date(),
+    };
+    this.bookings.set(booking.confirmationNumber, booking);
+
+    return this.ok({ BookingDetails: this.bookingResponseDetails(booking) });
+  }
+
+  private bookingDetail(body: Partial<BookingDetailRequest>): FakeResult {
+    const booking = [...this.bookings.values()].find(b => b.bookingReferenceId === body.BookingReferenceId);
+
+    if (!booking) {
+      return this.ok({}, 400, 'Booking not found');
+    }
+
+    return this.ok({
+      BookingDetails: {
+        ...this.bookingDetails(booking.offer, booking.totalFare),
+        ConfirmationNumber: booking.confirmationNumber,
+        BookingId: booking.bookingId,
+        BookingReferenceId: booking.bookingReferenceId,
+        BookingStatus: booking.status,
+        InvoiceNumber: booking.invoiceNumber,
+      },
+    });
+  }
+
+  private bookingsByDate(body: Partial<BookingsByDateRequest>): FakeResult {
+    const from = String(body.FromDate || '').slice(0, 10);
+    const to = String(body.ToDate || '').slice(0, 10);
+
+    if (!from || !to) {
+      return this.ok({}, 400, 'FromDate and ToDate are required');
+    }
+
+    const bookings = [...this.bookings.values()].filter(booking => {
+      const created = booking.createdAt.toISOString().slice(0, 10);
+      return created >= from && created <= to;
+    });
+    if (bookings.length === 0) {
+      return this.ok({}, 201, 'No bookings found for the given dates');
+    }
+
+    return this.ok({
+      BookingDetails: bookings.map(booking => ({
+        BookingId: booking.bookingId,
+        BookingReferenceId: booking.bookingReferenceId,
+        ConfirmationNumber: booking.confirmationNumber,
+        BookingStatus: booking.status,
+        HotelName: booking.offer.hotel.detail.HotelName,
+        CheckIn: booking.offer.checkIn,
+        CheckOut: booking.offer.checkOut,
+        Price: { OfferedPrice: booking.totalFare, CurrencyCode: booking.offer.hotel.currency },
+      })),
+    });
+  }
+
+  private cancel(body: Partial<CancelRequest>): FakeResult {
+    const booking = this.bookings.get(body.ConfirmationNumber || '');
+
+    if (!booking) {
+      return this.ok({}, 400, 'Booking not found');
+    }
+    if (booking.status === 'Cancelled') {
+      return this.ok({}, 400, 'Booking already cancelled');
+    }
+
+    const charge = this.cancellationCharge(booking.offer.cancelPolicies, booking.totalFare);
+    booking.status = 'Cancelled';
+
+    return this.ok({
+      CancellationDetails: {
+        ConfirmationNumber: booking.confirmationNumber,
+        BookingReferenceId: booking.bookingReferenceId,
+        CancellationId: `CXL-${booking.bookingId}`,
+        CancellationStatus: 'Cancelled',
+        CancellationDate: new Date().toISOString(),
+        HotelName: booking.offer.hotel.detail.HotelName,
+        RefundDetails: {
+          RefundAmount: this.round(booking.totalFare - charge),
+          CancellationCharge: charge,
+          Currency: booking.offer.hotel.currency,
+          OriginalBookingAmount: booking.totalFare,
+          NetRefundAmount: this.round(booking.totalFare - charge),
+        },
+      },
+    });
+  }
+
+  private hotelDetails(body: Partial<HotelDetailsRequest>): FakeResult {
+    const codes = String(body.Hotelcodes || '').split(',').map(code => code.trim());
+    const details: HotelDetail[] = this.fixtures.hotels
+      .filter(hotel => codes.includes(hotel.detail.HotelCode))
+      .map(hotel => hotel.detail);
+
+    if (details.length === 0) {
+      return this.ok({}, 201, 'No hotel details found');
+    }
+
+    return this.ok({ HotelDetails: details });
+  }
+
+  private hotelCodeEntry(hotel: FakeHotelFixture): Record<string, unknown> {
+    const city = this.fixtures.cities.find(c => c.Code === hotel.cityCode);
+
+    return {
+      HotelCode: hotel.detail.HotelCode,
+      HotelName: hotel.detail.HotelName,
+      HotelRating: hotel.detail.StarRating,
+      Address: hotel.detail.Address,
+      CityCode: hotel.cityCode,
+      CityName: city ? city.Name : hotel.detail.City,
+      CountryCode: hotel.countryCode,
+      CountryName: hotel.detail.Country,
+      Latitude: hotel.detail.Latitude,
+      Longitude: hotel.detail.Longitude,
+    };
+  }
+
+  private bookingDetails(offer: FakeOffer, totalFare: number): HotelBookingDetails {
+    const hotel = offer.hotel.detail;
+
+    return {
+      BookingCode: offer.bookingCode,
+      HotelCode: hotel.HotelCode,
+      HotelName: hotel.HotelName,
+      CheckIn: offer.checkIn,
+      CheckOut: offer.checkOut,
+      Price: this.price(totalFare, offer, offer.hotel.currency),
+      RoomDetails: offer.paxRooms.map((_, index) => ({
+        RoomIndex: index + 1,
+        RoomTypeName: offer.room.name,
+        RatePlanName: offer.room.mealType,
+        BedTypeName: offer.room.name.includes('Twin') ? 'Twin' : 'King',
+        SmokingPreference: 'NoPreference',
+        Inclusion: offer.room.inclusion.split(',').map(item => item.trim()),
+      })),
+      CancellationPolicies: {
+        CancelPolicies: offer.cancelPolicies,
+        NonRefundable: !offer.room.refundable,
+      },
+      HotelDetails: {
+        Address: hotel.Address,
+        HotelContactNo: hotel.ContactNumber,
+        HotelEmailId: hotel.EmailId,
+        StarRating: hotel.StarRating,
+      },
+    };
+  }
+
+  private bookingResponseDetails(booking: FakeBooking): Record<string, unknown> {
+    const details = this.bookingDetails(booking.offer, booking.totalFare);
+
+    return {
+      ConfirmationNumber: booking.confirmationNumber,
+      BookingId: booking.bookingId,
+      BookingReferenceId: booking.bookingReferenceId,
+      BookingStatus: booking.status,
+      InvoiceNumber: booking.invoiceNumber,
+      HotelName: details.HotelName,
+      HotelCode: details.HotelCode,
+      CheckIn: details.CheckIn,
+      CheckOut: details.CheckOut,
+      Price: details.Price,
+      CustomerDetails: booking.customerDetails,
+      HotelDetails: {
+        Address: details.HotelDetails.Address,
+        HotelContactNo: details.HotelDetails.HotelContactNo,
+        HotelEmailId: details.HotelDetails.HotelEmailId,
+      },
+      CancellationPolicies: {
+        CancelPolicies: details.CancellationPolicies.CancelPolicies,
+      },
+    };
+  }
+
+  private price(totalFare: number, offer: FakeOffer, currency: string): Price {
+    const tax = this.round(totalFare * offer.totalTax / offer.totalFare);
+
+    return {
+      RoomPrice: this.round(totalFare - tax),
+      Tax: tax,
+      ExtraGuestCharge: 0,
+      ChildCharge: 0,
+      OtherCharges: 0,
+      Discount: 0,
+      PublishedPrice: totalFare,
+      PublishedPriceRoundedOff: Math.round(totalFare),
+      OfferedPrice: totalFare,
+      OfferedPriceRoundedOff: Math.round(totalFare),
+      AgentCommission: 0,
+      AgentMarkUp: 0,
+      ServiceTax: 0,
+      TDS: 0,
+      CurrencyCode: currency,
+    };
+  }
+
+  /**
+   * Refundable rooms are free to cancel until two days before check-in
+   */
+  private cancelPolicies(refundable: boolean, checkIn: string): CancellationPolicy[] {
+    const today = new Date();
+
+    if (!refundable) {
+      return [{ FromDate: this.policyDate(today), ChargeType: 'Percentage', CancellationCharge: 100 }];
+    }
+
+    const deadline = new Date(`${checkIn.slice(0, 10)}T00:00:00Z`);
+    deadline.setUTCDate(deadline.getUTCDate() - 2);
+
+    return [
+      { FromDate: this.policyDate(today), ChargeType: 'Fixed', CancellationCharge: 0 },
+      { FromDate: this.policyDate(deadline), ChargeType: 'Percentage', CancellationCharge: 100 },
+    ];
+  }
+
+  private cancellationCharge(policies: CancellationPolicy[], totalFare: number): number {
+    const now = Date.now();
+    let applied: CancellationPolicy | null = null;
+
+    for (const policy of policies) {
+      const [day, month, rest] = policy.FromDate.split('-');
+      const from = Date.parse(`${rest.slice(0, 4)}-${month}-${day}T${rest.slice(5) || '00:00:00'}Z`);
+      if (from <= now) {
+        applied = policy;
+      }
+    }
+
+    if (!applied) {
+      return 0;
+    }
+
+    return applied.ChargeType === 'Percentage'
+      ? this.round(totalFare * applied.CancellationCharge / 100)
+      : applied.CancellationCharge;
+  }
+
+  private policyDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(date.getUTCDate())}-${pad(date.getUTCMonth() + 1)}-${date.getUTCFullYear()} ` +
+      `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  }
+
+  private nightsBetween(checkIn: string | undefined, checkOut: string | undefined): number {
+    const from = Date.parse(`${String(checkIn).slice(0, 10)}T00:00:00Z`);
+    const to = Date.parse(`${String(checkOut).slice(0, 10)}T00:00:00Z`);
+    return isNaN(from) || isNaN(to) ? 0 : Math.round((to - from) / (24 * 60 * 60 * 1000));
+  }
+
+  private ok(data: Record<string, unknown>, code: number = 200, description: string = 'Successful'): FakeResult {
+    return { status: 200, body: { ...this.status(code, description), ...data } };
+  }
+
+  private status(code: number, description: string): { Status: { Code: number; Description: string } } {
+    return { Status: { Code: code, Description: description } };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
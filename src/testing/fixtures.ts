@@ -0,0 +1,137 @@
+/**
+ * Fixture data served by the fake TBO server
+ */
+
+import { City, Country, HotelDetail } from '../types/api-types';
+
+export interface FakeHotelFixture {
+  detail: HotelDetail;
+  cityCode: string;
+  countryCode: string;
+  baseRate: number;
+  currency: string;
+  rooms: Array<{
+    name: string;
+    mealType: string;
+    inclusion: string;
+    rateFactor: number;
+    refundable: boolean;
+    withTransfers: boolean;
+  }>;
+}
+
+export interface FakeTBOFixtures {
+  countries: Country[];
+  cities: City[];
+  hotels: FakeHotelFixture[];
+}
+
+export const FAKE_COUNTRIES: Country[] = [
+  { Code: 'AE', Name: 'United Arab Emirates' },
+  { Code: 'AU', Name: 'Australia' },
+  { Code: 'BR', Name: 'Brazil' },
+  { Code: 'CA', Name: 'Canada' },
+  { Code: 'DE', Name: 'Germany' },
+  { Code: 'FR', Name: 'France' },
+  { Code: 'GB', Name: 'United Kingdom' },
+  { Code: 'IN', Name: 'India' },
+  { Code: 'IT', Name: 'Italy' },
+  { Code: 'JP', Name: 'Japan' },
+  { Code: 'SG', Name: 'Singapore' },
+  { Code: 'TR', Name: 'Türkiye' },
+  { Code: 'US', Name: 'United States' },
+];
+
+export const FAKE_CITIES: City[] = [
+  { Code: '115936', Name: 'Dubai', CountryCode: 'AE' },
+  { Code: '100765', Name: 'Abu Dhabi', CountryCode: 'AE' },
+  { Code: '148671', Name: 'Sharjah', CountryCode: 'AE' },
+  { Code: '126632', Name: 'London', CountryCode: 'GB' },
+  { Code: '131408', Name: 'Manchester', CountryCode: 'GB' },
+  { Code: '131368', Name: 'Paris', CountryCode: 'FR' },
+  { Code: '130452', Name: 'Mumbai', CountryCode: 'IN' },
+  { Code: '130443', Name: 'New Delhi', CountryCode: 'IN' },
+  { Code: '138673', Name: 'New York', CountryCode: 'US' },
+  { Code: '138674', Name: 'New York City', CountryCode: 'US' },
+  { Code: '115934', Name: 'São Paulo', CountryCode: 'BR' },
+  { Code: '145811', Name: 'Singapore', CountryCode: 'SG' },
+  { Code: '149027', Name: 'Istanbul', CountryCode: 'TR' },
+];
+
+const STANDARD_ROOMS: FakeHotelFixture['rooms'] = [
+  { name: 'Standard Room, 1 King Bed', mealType: 'Room_Only', inclusion: 'Free WiFi', rateFactor: 1, refundable: true, withTransfers: false },
+  { name: 'Standard Room, 1 King Bed', mealType: 'BreakFast', inclusion: 'Breakfast for 2, Free WiFi', rateFactor: 1.15, refundable: true, withTransfers: false },
+  { name: 'Deluxe Room, 2 Twin Beds', mealType: 'Room_Only', inclusion: 'Free WiFi', rateFactor: 1.3, refundable: false, withTransfers: false },
+  { name: 'Junior Suite', mealType: 'Half_Board', inclusion: 'Breakfast and dinner, Airport transfer', rateFactor: 1.8, refundable: true, withTransfers: true },
+];
+
+function hotel(
+  code: string,
+  name: string,
+  stars: number,
+  cityCode: string,
+  city: string,
+  countryCode: string,
+  country: string,
+  latitude: number,
+  longitude: number,
+  baseRate: number,
+  currency: string = 'USD',
+  facilities: string[] = ['Free WiFi', 'Swimming Pool', 'Fitness Center', 'Restaurant']
+): FakeHotelFixture {
+  return {
+    detail: {
+      HotelCode: code,
+      HotelName: name,
+      StarRating: stars,
+      Address: `${Number(code) % 200} Sample Street, ${city}`,
+      City: city,
+      Country: country,
+      Pincode: String(10000 + (Number(code) % 90000)),
+      ContactNumber: `+000-${code}`,
+      EmailId: `reservations@hotel-${code}.example.com`,
+      Website: `https://hotel-${code}.example.com`,
+      Description: `${name} is a ${stars}-star hotel in ${city}.`,
+      Facilities: facilities,
+      HotelImages: [
+        { ImageUrl: `https://images.example.com/${code}/exterior.jpg`, Description: 'Exterior' },
+        { ImageUrl: `https://images.example.com/${code}/room.jpg`, Description: 'Room' },
+      ],
+      CheckInTime: '14:00',
+      CheckOutTime: '12:00',
+      Latitude: latitude,
+      Longitude: longitude,
+    },
+    cityCode,
+    countryCode,
+    baseRate,
+    currency,
+    rooms: STANDARD_ROOMS,
+  };
+}
+
+export const FAKE_HOTELS: FakeHotelFixture[] = [
+  hotel('1402689', 'Marina View Hotel', 4, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.0805, 55.1403, 180),
+  hotel('1405349', 'Creekside Residences', 3, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.2637, 55.3109, 95),
+  hotel('1405355', 'Palm Grand Resort', 5, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.1124, 55.1390, 420,
+    'USD', ['Free WiFi', 'Private Beach', 'Spa', 'Swimming Pool', 'Kids Club', 'Restaurant']),
+  hotel('1407362', 'Downtown Boulevard Hotel', 5, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.1972, 55.2744, 310),
+  hotel('1413911', 'Deira City Inn', 2, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.2711, 55.3075, 55,
+    'USD', ['Free WiFi', 'Restaurant']),
+  hotel('1414353', 'Business Bay Suites', 4, '115936', 'Dubai', 'AE', 'United Arab Emirates', 25.1850, 55.2650, 150),
+  hotel('1415021', 'Corniche Tower Hotel', 4, '100765', 'Abu Dhabi', 'AE', 'United Arab Emirates', 24.4764, 54.3705, 140),
+  hotel('1415135', 'Saadiyat Beach Retreat', 5, '100765', 'Abu Dhabi', 'AE', 'United Arab Emirates', 24.5450, 54.4340, 390,
+    'USD', ['Free WiFi', 'Private Beach', 'Spa', 'Golf Course']),
+  hotel('1415356', 'Al Qasba Hotel', 3, '148671', 'Sharjah', 'AE', 'United Arab Emirates', 25.3240, 55.3890, 70),
+  hotel('1440549', 'Thames Riverside Hotel', 4, '126632', 'London', 'GB', 'United Kingdom', 51.5079, -0.1218, 240, 'GBP'),
+  hotel('1440646', 'Kensington Gardens Inn', 3, '126632', 'London', 'GB', 'United Kingdom', 51.5010, -0.1877, 160, 'GBP'),
+  hotel('1440710', 'Rive Gauche Hôtel', 4, '131368', 'Paris', 'FR', 'France', 48.8530, 2.3390, 210, 'EUR'),
+  hotel('1440886', 'Marine Drive Palace', 5, '130452', 'Mumbai', 'IN', 'India', 18.9432, 72.8235, 190),
+  hotel('1440924', 'Midtown Manhattan Hotel', 4, '138673', 'New York', 'US', 'United States', 40.7549, -73.9840, 330),
+];
+
+export const DEFAULT_FAKE_FIXTURES: FakeTBOFixtures = {
+  countries: FAKE_COUNTRIES,
+  cities: FAKE_CITIES,
+  hotels: FAKE_HOTELS,
+};
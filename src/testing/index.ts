@@ -0,0 +1,7 @@
+/**
+ * Testing utilities - fake TBO server and its fixtures
+ * Imported from "@setkyar/tbo-hotel-sdk/testing" so they stay out of the main entry point
+ */
+
+export * from './fake-server';
+export * from './fixtures';
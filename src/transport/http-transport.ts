@@ -0,0 +1,372 @@
+/**
+ * HTTP transport shared by the TBO clients
+ */
+
+import 'dotenv/config';
+import * as http from 'http';
+import * as https from 'https';
+import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import {
+  TBOClientConfig,
+  TBOError,
+  TBOLogger,
+  TBORequestLimiter,
+  TBORequestOptions,
+  TBORetryEvent,
+  TBORetryPolicy,
+  TBOTransport,
+  APIResponse,
+} from '../types/api-types';
+import { TrafficRecorder } from '../recording/recorder';
+import { createErrorFromAxios, createStatusError, parseRetryAfter, TBOCircuitOpenError } from '../errors/tbo-errors';
+import { CircuitBreaker } from '../resilience/circuit-breaker';
+import { RequestLimiter } from '../resilience/request-limiter';
+import { computeRetryDelay, isRetryable, resolveRetryPolicy } from '../resilience/retry-policy';
+import { silentLogger, withRedaction } from '../logging/logger';
+
+type TBORequestConfig = AxiosRequestConfig & {
+  _retryCount?: number;
+  _noRetry?: boolean;
+  _startedAt?: number;
+  _correlationId?: string;
+};
+
+/**
+ * Axios-based transport with keep-alive connection pooling, response compression,
+ * retries, circuit breaking, rate limiting, recording and logging
+ */
+export class HttpTransport implements TBOTransport {
+  private logger: TBOLogger;
+  private client: AxiosInstance;
+  private config: Required<Pick<
+    TBOClientConfig,
+    'baseURL' | 'username' | 'password' | 'timeout' | 'retries' | 'throwOnStatusError' | 'keepAlive' | 'maxSockets' | 'compression'
+  >>;
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+  private recorder: TrafficRecorder | null = null;
+  private recordingMode: 'record' | 'replay' | null = null;
+  private retryPolicy: TBORetryPolicy;
+  private retryPolicies: Record<string, TBORetryPolicy>;
+  private breaker: CircuitBreaker | null;
+  private onRetry: ((event: TBORetryEvent) => void) | null;
+  private limiter: TBORequestLimiter | null;
+
+  constructor(config: TBOClientConfig = {}) {
+    this.config = {
+      baseURL: config.baseURL || process.env.TBO_BASE_URL || 'http://api.tbotechnology.in/TBOHolidays_HotelAPI',
+      username: config.username || process.env.TBO_USERNAME || '',
+      password: config.password || process.env.TBO_PASSWORD || '',
+      timeout: config.timeout || 30000,
+      retries: config.retries ?? 3,
+      throwOnStatusError: config.throwOnStatusError || false,
+      keepAlive: config.keepAlive ?? true,
+      maxSockets: config.maxSockets || 50,
+      compression: config.compression ?? true,
+    };
+
+    this.logger = withRedaction(config.logger || silentLogger);
+    this.retryPolicy = { maxRetries: this.config.retries, ...config.retryPolicy };
+    this.retryPolicies = config.retryPolicies || {};
+    // Each transport has its own breaker, so one SDK instance's failures never open another's circuit
+    this.breaker = config.circuitBreaker === false ? null : new CircuitBreaker(config.circuitBreaker);
+    this.onRetry = config.onRetry || null;
+    this.limiter = config.limiter || (config.rateLimit ? new RequestLimiter(config.rateLimit) : null);
+
+    if (!this.config.username || !this.config.password) {
+      this.logger.warn('TBO API credentials not provided. Please set username and password in config or environment variables (TBO_USERNAME, TBO_PASSWORD)');
+    }
+
+    const agentOptions = { keepAlive: this.config.keepAlive, maxSockets: this.config.maxSockets };
+    this.httpAgent = new http.Agent(agentOptions);
+    this.httpsAgent = new https.Agent(agentOptions);
+
+    this.client = axios.create({
+      baseURL: this.config.baseURL,
+      timeout: this.config.timeout,
+      auth: {
+        username: this.config.username,
+        password: this.config.password,
+      },
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Accept-Encoding': this.config.compression ? 'gzip, deflate, br' : 'identity',
+      },
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      decompress: this.config.compression,
+    });
+
+    if (config.recording) {
+      this.recorder = TrafficRecorder.forCassette(config.recording.cassettePath);
+      this.recordingMode = config.recording.mode;
+
+      if (this.recordingMode === 'replay') {
+        this.client.defaults.adapter = this.recorder.adapter;
+      }
+    }
+
+    // Throttle at the adapter so retries queue like first attempts and backoff delays hold no slot
+    if (this.limiter) {
+      const limiter = this.limiter;
+      const adapter = axios.getAdapter(this.client.defaults.adapter);
+      this.client.defaults.adapter = (requestConfig) =>
+        limiter.schedule(this.endpointOf(requestConfig), () => adapter(requestConfig));
+    }
+
+    this.setupInterceptors();
+  }
+
+  private setupInterceptors(): void {
+    // Request interceptor
+    this.client.interceptors.request.use(
+      (config) => {
+        const requestConfig = config as typeof config & TBORequestConfig;
+        requestConfig._startedAt = Date.now();
+
+        this.logger.debug('TBO request', {
+          ...this.logFields(requestConfig),
+          durationMs: undefined,
+          body: requestConfig.data,
+        });
+        return config;
+      },
+      (error: unknown) => {
+        this.logger.error('TBO request error', { error: (error as Error).message });
+        return Promise.reject(this.createTBOError(error));
+      }
+    );
+
+    // Response interceptor
+    this.client.interceptors.response.use(
+      (response) => {
+        this.logger.info('TBO response', {
+          ...this.logFields(response.config),
+          status: response.status,
+          tboStatus: (response.data as APIResponse | undefined)?.Status?.Code,
+        });
+        this.recordResponse(response);
+        this.recordCircuitOutcome(response.status);
+        return response;
+      },
+      async (error: AxiosError) => {
+        const config = error.config as TBORequestConfig;
+
+        this.logger.error('TBO response error', {
+          ...(config ? this.logFields(config) : {}),
+          status: error.response?.status,
+          error: error.message,
+        });
+        if (error.response) {
+          this.recordResponse(error.response);
+          this.discardStream(error.response);
+        }
+        this.recordCircuitOutcome(error.response?.status);
+
+        const delayMs = config && !config._noRetry ? this.retryDelay(config, error) : null;
+        if (config && delayMs !== null) {
+          config._retryCount = (config._retryCount || 0) + 1;
+
+          this.logger.warn('Retrying TBO request', {
+            ...this.logFields(config),
+            delayMs,
+          });
+          this.onRetry?.({
+            endpoint: this.endpointOf(config),
+            attempt: config._retryCount,
+            delayMs,
+            status: error.response?.status,
+            error: error.message,
+            correlationId: config._correlationId,
+          });
+          await this.delay(delayMs);
+
+          return this.client.request(config);
+        }
+
+        return Promise.reject(this.createTBOError(error));
+      }
+    );
+  }
+
+  private logFields(config: TBORequestConfig): Record<string, unknown> {
+    return {
+      endpoint: this.endpointOf(config),
+      method: config.method?.toUpperCase(),
+      durationMs: config._startedAt ? Date.now() - config._startedAt : undefined,
+      retryAttempt: config._retryCount || 0,
+      correlationId: config._correlationId,
+    };
+  }
+
+  /**
+   * Delay before retrying a failed attempt, or null when the operation's policy,
+   * the server's Retry-After or an open circuit rule it out
+   */
+  private retryDelay(config: TBORequestConfig, error: AxiosError): number | null {
+    const policy = resolveRetryPolicy(this.endpointOf(config), this.retryPolicy, this.retryPolicies);
+    const attempt = (config._retryCount || 0) + 1;
+
+    if (attempt > policy.maxRetries || !isRetryable(policy, error.response?.status)) {
+      return null;
+    }
+
+    const delayMs = computeRetryDelay(policy, attempt, parseRetryAfter(error.response?.headers?.['retry-after']));
+    if (delayMs === null || (this.breaker && !this.breaker.tryAcquire())) {
+      return null;
+    }
+
+    return delayMs;
+  }
+
+  /**
+   * Only timeouts, connection failures and 5xx responses count against the circuit;
+   * any other response shows TBO is reachable
+   */
+  private recordCircuitOutcome(status: number | undefined): void {
+    const previous = this.breaker?.state;
+
+    if (status === undefined || status >= 500) {
+      this.breaker?.recordFailure();
+    } else {
+      this.breaker?.recordSuccess();
+    }
+
+    if (this.breaker && this.breaker.state !== previous) {
+      this.logger.warn('TBO circuit breaker state changed', {
+        from: previous,
+        to: this.breaker.state,
+        failures: this.breaker.failures,
+      });
+    }
+  }
+
+  private endpointOf(config: AxiosRequestConfig): string {
+    return (config.url || '').replace(/^\/+/, '');
+  }
+
+  private recordResponse(response: AxiosResponse): void {
+    // Streamed bodies are consumed by the caller and cannot be recorded
+    if (this.recorder && this.recordingMode === 'record' && response.config.responseType !== 'stream') {
+      this.recorder.record(response);
+    }
+  }
+
+  /**
+   * Free the connection held by an unread streamed error body
+   */
+  private discardStream(response: AxiosResponse): void {
+    if (response.config.responseType === 'stream' && response.data instanceof Readable) {
+      response.data.destroy();
+    }
+  }
+
+  private createTBOError(error: unknown): TBOError {
+    // Errors already converted by the response interceptor keep their status
+    if (!axios.isAxiosError(error)) {
+      return error as TBOError;
+    }
+
+    return createErrorFromAxios(error, error.config ? this.endpointOf(error.config) : undefined);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Circuit breaker of this transport, shared by the clients using it, if enabled
+   */
+  public get circuitBreaker(): CircuitBreaker | null {
+    return this.breaker;
+  }
+
+  /**
+   * Send a request with automatic authentication handling
+   */
+  async request<T extends APIResponse>(
+    endpoint: string,
+    data: any = {},
+    method: 'GET' | 'POST' = 'POST',
+    options: TBORequestOptions = {}
+  ): Promise<T> {
+    const response = await this.send<T>(endpoint, data, method, options, 'json');
+
+    const throwOnStatusError = options.throwOnStatusError ?? this.config.throwOnStatusError;
+    if (throwOnStatusError && response.data?.Status && response.data.Status.Code !== 200) {
+      throw createStatusError(endpoint, response.data, response.status);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Send a request and resolve to the response body as a stream of chunks,
+   * so large responses can be parsed as they arrive. Status codes in the
+   * body are left to the caller, and streamed responses are not recorded.
+   */
+  async stream(
+    endpoint: string,
+    data: any = {},
+    method: 'GET' | 'POST' = 'POST',
+    options: TBORequestOptions = {}
+  ): Promise<AsyncIterable<Uint8Array | string>> {
+    const response = await this.send<unknown>(endpoint, data, method, options, 'stream');
+
+    // Replayed cassettes hold parsed bodies rather than streams
+    if (response.data instanceof Readable) {
+      return response.data;
+    }
+    return Readable.from([JSON.stringify(response.data)]);
+  }
+
+  /**
+   * Check the circuit and send one request through the interceptors
+   */
+  private async send<T>(
+    endpoint: string,
+    data: any,
+    method: 'GET' | 'POST',
+    options: TBORequestOptions,
+    responseType: 'json' | 'stream'
+  ): Promise<AxiosResponse<T>> {
+    const config: TBORequestConfig = {
+      method,
+      url: `/${endpoint}`,
+      responseType,
+      _retryCount: 0,
+      _noRetry: options.retry === false,
+      _correlationId: options.correlationId || randomUUID(),
+    };
+
+    // Add data
+    if (method === 'POST') {
+      config.data = data;
+    } else if (method === 'GET' && Object.keys(data).length > 0) {
+      config.params = data;
+    }
+
+    if (this.breaker && !this.breaker.tryAcquire()) {
+      const circuitError = new TBOCircuitOpenError(`Circuit breaker is open, ${endpoint} was not sent`, { endpoint });
+      circuitError.retryInMs = this.breaker.retryInMs;
+      throw circuitError;
+    }
+
+    try {
+      return await this.client.request<T>(config);
+    } catch (error) {
+      throw this.createTBOError(error);
+    }
+  }
+
+  /**
+   * Close pooled connections; the transport must not be used afterwards
+   */
+  destroy(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+  }
+}
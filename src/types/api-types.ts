@@ -66,6 +66,70 @@ export interface HotelSearchResponse extends APIResponse {
   HotelResult: HotelResult[];
 }
 
+export interface SearchSummary {
+  totalHotels: number;
+  totalRooms: number;
+  totalBookingCodes: number;
+  priceRange: { min: number; max: number; currency: string } | null;
+}
+
+export interface RoomCombinationRoom {
+  /** Requested occupancy this room covers, in PaxRooms order */
+  occupancy: PaxRoom;
+  name: string;
+  /** Sum of the room's DayRates, or null when TBO sent none */
+  baseFare: number | null;
+}
+
+export interface RoomCombination {
+  /** Single code covering every room, to pass to PreBook */
+  bookingCode: string;
+  /** Combined fare of all rooms, including tax */
+  totalFare: number;
+  totalTax: number;
+  currency: string;
+  mealType: string;
+  inclusion: string;
+  isRefundable: boolean;
+  withTransfers: boolean;
+  cancelPolicies: CancellationPolicy[];
+  /** ISO time free cancellation ends, or null when it is not available now or never ends */
+  freeCancellationUntil: string | null;
+  rooms: RoomCombinationRoom[];
+}
+
+export interface HotelRoomCombinations {
+  hotelCode: string;
+  currency: string;
+  /** Cheapest first */
+  combinations: RoomCombination[];
+  /** Offers that do not cover every requested occupancy and cannot be booked as they are */
+  incomplete: Room[];
+}
+
+export interface SearchBatchOutcome {
+  hotelCodes: string[];
+  /** 'empty' means TBO answered with no available rooms (Status 201) */
+  status: 'ok' | 'empty' | 'failed';
+  hotels: number;
+  error?: Error;
+}
+
+export interface BatchedSearchOptions {
+  /** Hotel codes per search request, capped at TBO's limit (default 100) */
+  batchSize?: number;
+  /** Search requests in flight at once (default 4) */
+  concurrency?: number;
+}
+
+export interface BatchedSearchResult {
+  /** Hotel results of all successful batches, as one search response */
+  response: HotelSearchResponse;
+  summary: SearchSummary;
+  batches: SearchBatchOutcome[];
+  failedBatches: number;
+}
+
 // PreBook Types
 export interface PreBookRequest {
   BookingCode: string;
@@ -193,6 +257,13 @@ export interface BookingResponse extends APIResponse {
   };
 }
 
+export interface BookingGuest {
+  title: string;
+  firstName: string;
+  lastName: string;
+  type?: "Adult" | "Child";
+}
+
 // Utilities Types
 export interface Country {
   Code: string;
@@ -249,6 +320,28 @@ export interface HotelDetailsResponse extends APIResponse {
   HotelDetails: HotelDetail[];
 }
 
+export interface TBOHotelCodeListRequest {
+  CityCode: string;
+  IsDetailedResponse: string;
+}
+
+export interface HotelCodeListEntry {
+  HotelCode: string;
+  HotelName: string;
+  HotelRating?: number;
+  Address?: string;
+  CityCode?: string;
+  CityName?: string;
+  CountryCode?: string;
+  CountryName?: string;
+  Latitude?: number;
+  Longitude?: number;
+}
+
+export interface HotelCodeListResponse extends APIResponse {
+  Hotels: HotelCodeListEntry[];
+}
+
 // Cancellation Types
 export interface CancelRequest {
   ConfirmationNumber: string;
@@ -279,7 +372,13 @@ export interface BookingDetailRequest {
 }
 
 export interface BookingDetailResponse extends APIResponse {
-  BookingDetails: HotelBookingDetails;
+  BookingDetails: HotelBookingDetails & {
+    ConfirmationNumber?: string;
+    BookingId?: number;
+    BookingReferenceId?: string;
+    BookingStatus?: string;
+    InvoiceNumber?: string;
+  };
 }
 
 export interface BookingsByDateRequest {
@@ -287,20 +386,22 @@ export interface BookingsByDateRequest {
   ToDate: string;
 }
 
+export interface BookingSummary {
+  BookingId: number;
+  BookingReferenceId: string;
+  ConfirmationNumber: string;
+  BookingStatus: string;
+  HotelName: string;
+  CheckIn: string;
+  CheckOut: string;
+  Price: {
+    OfferedPrice: number;
+    CurrencyCode: string;
+  };
+}
+
 export interface BookingsByDateResponse extends APIResponse {
-  BookingDetails: Array<{
-    BookingId: number;
-    BookingReferenceId: string;
-    ConfirmationNumber: string;
-    BookingStatus: string;
-    HotelName: string;
-    CheckIn: string;
-    CheckOut: string;
-    Price: {
-      OfferedPrice: number;
-      CurrencyCode: string;
-    };
-  }>;
+  BookingDetails: BookingSummary[];
 }
 
 // Client Configuration
@@ -310,11 +411,188 @@ export interface TBOClientConfig {
   password?: string;
   timeout?: number;
   retries?: number;
+  recording?: TBORecordingConfig;
+  logger?: TBOLogger;
+  /** Throw a typed error when a response body carries a Status.Code other than 200 */
+  throwOnStatusError?: boolean;
+  /** Retry policy applied to every operation without its own entry in retryPolicies */
+  retryPolicy?: TBORetryPolicy;
+  /** Retry policies per endpoint, e.g. { search: { maxRetries: 5 } } */
+  retryPolicies?: Record<string, TBORetryPolicy>;
+  /** Circuit breaker of the transport, shared by the clients using it; false disables it */
+  circuitBreaker?: TBOCircuitBreakerConfig | false;
+  /** Called before every retry attempt */
+  onRetry?: (event: TBORetryEvent) => void;
+  /** Client-side rate and concurrency limits; requests over the limit are queued */
+  rateLimit?: TBORateLimitConfig;
+  /** Limiter to share between clients or SDK instances */
+  limiter?: TBORequestLimiter;
+  /** Reuse connections between requests (default true) */
+  keepAlive?: boolean;
+  /** Maximum open sockets per host when keepAlive is on (default 50) */
+  maxSockets?: number;
+  /** Ask for gzip/deflate/brotli compressed responses (default true) */
+  compression?: boolean;
+  /** Transport to send requests through; TBOHolidaysSDK shares one across its clients */
+  transport?: TBOTransport;
+  /** Check requests and responses against runtime schemas */
+  validation?: TBOValidationConfig;
+  /** Cache static-data responses (CountryList, CityList, Hoteldetails) */
+  cache?: TBOCacheConfig;
+}
+
+export interface TBOValidationConfig {
+  /** 'strict' throws on any mismatch, 'lenient' coerces what it can and reports warnings */
+  mode: 'strict' | 'lenient';
+  /** Validate outgoing requests (default true) */
+  requests?: boolean;
+  /** Validate responses (default true) */
+  responses?: boolean;
+  /** Called with the issues found in lenient mode */
+  onWarning?: (warning: TBOValidationWarning) => void;
+}
+
+// Cache Types
+export interface TBOCacheEntry {
+  value: unknown;
+  /** Epoch milliseconds when the value was fetched */
+  storedAt: number;
+}
+
+export interface TBOCacheStore {
+  get(key: string): Promise<TBOCacheEntry | undefined>;
+  set(key: string, entry: TBOCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TBOCacheConfig {
+  /** Where entries are kept (default: in memory) */
+  store?: TBOCacheStore;
+  /** Time-to-live per endpoint in ms; endpoints without one are not cached */
+  ttls?: Record<string, number>;
+  /** How long past its TTL an entry is still served while it is refreshed in the background (default 1 hour) */
+  staleWhileRevalidateMs?: number;
+}
+
+export interface TBOValidationWarning {
+  endpoint: string;
+  direction: 'request' | 'response';
+  issues: Array<{ path: string; message: string }>;
+}
+
+export interface TBORequestOptions {
+  /** Set to false to send the request once, whatever the retry policy says */
+  retry?: boolean;
+  /** Id tying together the log lines of one call and its retries */
+  correlationId?: string;
+  /** Override the client's throwOnStatusError for this request */
+  throwOnStatusError?: boolean;
+  /** Set to false to bypass the response cache */
+  cache?: boolean;
+}
+
+export interface TBOTransport {
+  /** Send a request to a TBO endpoint and resolve to the response body */
+  request<T extends APIResponse>(
+    endpoint: string,
+    data: any,
+    method: 'GET' | 'POST',
+    options: TBORequestOptions
+  ): Promise<T>;
+  /** Send a request and resolve to the raw response body, for responses too large to buffer */
+  stream?(
+    endpoint: string,
+    data: any,
+    method: 'GET' | 'POST',
+    options: TBORequestOptions
+  ): Promise<AsyncIterable<Uint8Array | string>>;
+}
+
+export interface TBORecordingConfig {
+  /** 'record' captures traffic to the cassette, 'replay' serves it back without calling the API */
+  mode: 'record' | 'replay';
+  cassettePath: string;
+}
+
+// Resilience Types
+export interface TBORetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on every further retry (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, including Retry-After (default 10000) */
+  maxDelayMs?: number;
+  /** HTTP statuses worth retrying (default 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Retry timeouts and connection failures (default true) */
+  retryOnNetworkError?: boolean;
+}
+
+export interface TBORetryEvent {
+  endpoint: string;
+  attempt: number;
+  delayMs: number;
+  status?: number | undefined;
+  error: string;
+  correlationId?: string | undefined;
+}
+
+export type TBOCircuitState = 'closed' | 'open' | 'half-open';
+
+export interface TBOCircuitBreakerConfig {
+  /** Consecutive failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request is let through (default 30000) */
+  resetTimeoutMs?: number;
+}
+
+export interface TBOLimitRule {
+  /** Sustained request rate; unlimited when omitted */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once before the rate applies (default requestsPerSecond) */
+  burst?: number;
+  /** Requests in flight at the same time; unlimited when omitted */
+  maxConcurrent?: number;
+}
+
+export interface TBORateLimitConfig extends TBOLimitRule {
+  /** Additional limits per endpoint, applied together with the overall limit */
+  endpoints?: Record<string, TBOLimitRule>;
+}
+
+export interface TBORequestLimiter {
+  /** Run a request once the limits for its endpoint allow it */
+  schedule<T>(endpoint: string, task: () => Promise<T>): Promise<T>;
+}
+
+// Logging Types
+export type TBOLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface TBOLogFields {
+  endpoint?: string | undefined;
+  method?: string | undefined;
+  status?: number | undefined;
+  tboStatus?: number | undefined;
+  durationMs?: number | undefined;
+  retryAttempt?: number | undefined;
+  correlationId?: string | undefined;
+  [key: string]: unknown;
+}
+
+export interface TBOLogger {
+  debug(message: string, fields?: TBOLogFields): void;
+  info(message: string, fields?: TBOLogFields): void;
+  warn(message: string, fields?: TBOLogFields): void;
+  error(message: string, fields?: TBOLogFields): void;
 }
 
 // Error Types
 export interface TBOError extends Error {
   code?: number;
+  tboStatusCode?: number;
+  tboStatusDescription?: string;
+  endpoint?: string;
   response?: any;
   request?: any;
 }
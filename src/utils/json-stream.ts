@@ -0,0 +1,149 @@
+/**
+ * Incremental parsing of large JSON response bodies
+ */
+
+import { StringDecoder } from 'string_decoder';
+
+type Capture = 'key' | 'member' | 'element';
+
+/**
+ * Yield the elements of one array member of a top-level JSON object as they
+ * arrive, holding only the element being read in memory. Every other member
+ * of the object (e.g. Status) is parsed into envelope.
+ */
+export async function* streamJsonArray(
+  source: AsyncIterable<Uint8Array | string>,
+  arrayKey: string,
+  envelope: Record<string, unknown> = {}
+): AsyncGenerator<unknown> {
+  const decoder = new StringDecoder('utf8');
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expectingValue = false;
+  let inArray = false;
+  let key = '';
+
+  // Text of the key, member or element being read; it may span chunks
+  let capture: Capture | null = null;
+  let captured = '';
+  let captureStart = 0;
+
+  for await (const chunk of source) {
+    const text = typeof chunk === 'string' ? chunk : decoder.write(Buffer.from(chunk));
+    captureStart = 0;
+
+    const take = (end: number): string => {
+      const raw = captured + text.slice(captureStart, end);
+      capture = null;
+      captured = '';
+      return raw;
+    };
+    const begin = (kind: Capture, start: number): void => {
+      capture = kind;
+      captured = '';
+      captureStart = start;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === '\\') {
+          escaped = true;
+        } else if (c === '"') {
+          inString = false;
+          if (capture === 'key' && depth === 1) {
+            key = JSON.parse(take(i + 1)) as string;
+          } else if (capture === 'member' && depth === 1) {
+            envelope[key] = JSON.parse(take(i + 1));
+            expectingValue = false;
+          } else if (capture === 'element' && depth === 2) {
+            yield JSON.parse(take(i + 1));
+          }
+        }
+        continue;
+      }
+
+      switch (c) {
+        case ' ':
+        case '\t':
+        case '\n':
+        case '\r':
+          break;
+        case '"':
+          inString = true;
+          if (!capture && depth === 1) {
+            begin(expectingValue ? 'member' : 'key', i);
+          } else if (!capture && inArray && depth === 2) {
+            begin('element', i);
+          }
+          break;
+        case '{':
+        case '[':
+          if (!capture && depth === 1 && expectingValue) {
+            if (c === '[' && key === arrayKey) {
+              inArray = true;
+            } else {
+              begin('member', i);
+            }
+          } else if (!capture && inArray && depth === 2) {
+            begin('element', i);
+          }
+          depth++;
+          break;
+        case '}':
+        case ']':
+          // Scalars end at the bracket closing their container
+          if (capture === 'member' && depth === 1) {
+            envelope[key] = JSON.parse(take(i));
+          } else if (capture === 'element' && depth === 2) {
+            yield JSON.parse(take(i));
+          }
+          depth--;
+          if (capture === 'member' && depth === 1) {
+            envelope[key] = JSON.parse(take(i + 1));
+            expectingValue = false;
+          } else if (capture === 'element' && depth === 2) {
+            yield JSON.parse(take(i + 1));
+          } else if (inArray && depth === 1) {
+            inArray = false;
+            expectingValue = false;
+          }
+          break;
+        case ':':
+          if (depth === 1) {
+            expectingValue = true;
+          }
+          break;
+        case ',':
+          if (capture === 'member' && depth === 1) {
+            envelope[key] = JSON.parse(take(i));
+          } else if (capture === 'element' && depth === 2) {
+            yield JSON.parse(take(i));
+          }
+          if (depth === 1) {
+            expectingValue = false;
+          }
+          break;
+        default:
+          // Numbers, true, false and null
+          if (!capture && depth === 1 && expectingValue) {
+            begin('member', i);
+          } else if (!capture && inArray && depth === 2) {
+            begin('element', i);
+          }
+      }
+    }
+
+    if (capture) {
+      captured += text.slice(captureStart);
+    }
+  }
+
+  if (depth !== 0 || inString) {
+    throw new SyntaxError(`Response body ended before the JSON was complete`);
+  }
+}
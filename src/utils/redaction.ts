@@ -0,0 +1,54 @@
+/**
+ * Redaction of credentials, payment data and guest details
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Request/response fields holding credentials, card data or guest contact details */
+const SENSITIVE_KEYS = new Set([
+  'authorization',
+  'auth',
+  'password',
+  'cvvnumber',
+  'cardnumber',
+  'cardexpirationmonth',
+  'cardexpirationyear',
+  'cardholderfirstname',
+  'cardholderlastname',
+  'cardholderaddress',
+  'firstname',
+  'lastname',
+  'emailid',
+  'email',
+  'phonenumber',
+  'phone',
+]);
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Replace credentials, card data, guest names, phone numbers and any email address
+ */
+export function scrubRecord<T>(value: T, key: string = ''): T {
+  if (SENSITIVE_KEYS.has(key.toLowerCase())) {
+    return (value === null || value === undefined ? value : REDACTED) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return (value as unknown[]).map(item => scrubRecord(item, key)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const scrubbed: Record<string, unknown> = {};
+    for (const [childKey, childValue] of Object.entries(value as Record<string, unknown>)) {
+      scrubbed[childKey] = scrubRecord(childValue, childKey);
+    }
+    return scrubbed as T;
+  }
+
+  if (typeof value === 'string') {
+    return value.replace(EMAIL_PATTERN, REDACTED) as unknown as T;
+  }
+
+  return value;
+}
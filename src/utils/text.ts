@@ -0,0 +1,15 @@
+/**
+ * Text helpers for matching place names
+ */
+
+/**
+ * Lowercase, strip accents and collapse whitespace, so "São  Paulo" matches "sao paulo"
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,221 @@
+/**
+ * Minimal runtime schemas for TBO requests and responses.
+ *
+ * In strict mode values are checked as they are and every mismatch is an issue.
+ * In lenient mode values that can be coerced (numeric strings, "true"/"false",
+ * missing arrays) are fixed up, and every fix or remaining mismatch is reported.
+ */
+
+import { APIResponse } from '../types/api-types';
+
+export type SchemaMode = 'strict' | 'lenient';
+
+export interface SchemaIssue {
+  /** Location of the value, e.g. HotelResult[0].Rooms[1].TotalFare */
+  path: string;
+  message: string;
+}
+
+export interface SchemaContext {
+  mode: SchemaMode;
+  issues: SchemaIssue[];
+}
+
+export interface Schema<T> {
+  check(value: unknown, path: string, ctx: SchemaContext): T;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: SchemaIssue[];
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Check a value against a schema, coercing it in lenient mode
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, mode: SchemaMode): ValidationResult<T> {
+  const ctx: SchemaContext = { mode, issues: [] };
+  return { value: schema.check(value, '', ctx), issues: ctx.issues };
+}
+
+/**
+ * Render issues as one line, e.g. for an error message
+ */
+export function formatIssues(issues: SchemaIssue[], limit: number = 3): string {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path || '(root)'}: ${issue.message}`);
+  const more = issues.length > limit ? ` (+${issues.length - limit} more)` : '';
+  return shown.join('; ') + more;
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'string' ? `string "${value.length > 20 ? value.slice(0, 20) + '…' : value}"` : typeof value;
+}
+
+function report(ctx: SchemaContext, path: string, message: string): void {
+  ctx.issues.push({ path, message });
+}
+
+function mismatch(ctx: SchemaContext, path: string, expected: string, value: unknown): void {
+  report(ctx, path, value === undefined ? 'required field is missing' : `expected ${expected}, received ${describe(value)}`);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+export function str(): Schema<string> {
+  return {
+    check(value, path, ctx) {
+      if (typeof value === 'string') {
+        return value;
+      }
+      if (ctx.mode === 'lenient' && (typeof value === 'number' || typeof value === 'boolean')) {
+        report(ctx, path, `coerced ${typeof value} to string`);
+        return String(value);
+      }
+      mismatch(ctx, path, 'string', value);
+      return value as string;
+    },
+  };
+}
+
+export function num(): Schema<number> {
+  return {
+    check(value, path, ctx) {
+      if (typeof value === 'number' && !isNaN(value)) {
+        return value;
+      }
+      if (ctx.mode === 'lenient' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        report(ctx, path, 'coerced string to number');
+        return Number(value);
+      }
+      mismatch(ctx, path, 'number', value);
+      return value as number;
+    },
+  };
+}
+
+export function bool(): Schema<boolean> {
+  return {
+    check(value, path, ctx) {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (ctx.mode === 'lenient' && (value === 'true' || value === 'false' || value === 1 || value === 0)) {
+        report(ctx, path, `coerced ${typeof value} to boolean`);
+        return value === 'true' || value === 1;
+      }
+      mismatch(ctx, path, 'boolean', value);
+      return value as boolean;
+    },
+  };
+}
+
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return {
+    check(value, path, ctx) {
+      if (!values.includes(value as T)) {
+        mismatch(ctx, path, `one of ${values.join(', ')}`, value);
+      }
+      return value as T;
+    },
+  };
+}
+
+export function unknownValue(): Schema<unknown> {
+  return {
+    check: value => value,
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, ctx) {
+      // TBO sends null for absent values as often as it omits them
+      if (value === undefined || value === null) {
+        return value as undefined;
+      }
+      return schema.check(value, path, ctx);
+    },
+  };
+}
+
+export function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path, ctx) {
+      if (!Array.isArray(value)) {
+        if (ctx.mode === 'lenient' && (value === undefined || value === null)) {
+          report(ctx, path, `missing, defaulted to []`);
+          return [];
+        }
+        mismatch(ctx, path, 'array', value);
+        return value as T[];
+      }
+      return value.map((element, index) => item.check(element, join(path, index), ctx));
+    },
+  };
+}
+
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    check(value, path, ctx) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        mismatch(ctx, path, 'object', value);
+        return value as T;
+      }
+
+      // Keep fields the schema does not know about
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...source };
+
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const field = shape[key] as Schema<unknown>;
+        const fieldPath = join(path, key);
+
+        const checked = field.check(source[key], fieldPath, ctx);
+        if (checked !== undefined || key in source) {
+          result[key] = checked;
+        }
+      }
+
+      return result as T;
+    },
+  };
+}
+
+/**
+ * Schema for a TBO response: Status is always checked, the payload only when
+ * Status.Code is 200, since TBO leaves it out of failed responses
+ */
+export function apiResponse<T extends APIResponse>(payload: Shape<Omit<T, keyof APIResponse>>): Schema<T> {
+  const status = object<APIResponse>({
+    Status: object({
+      Code: num(),
+      Description: str(),
+    }),
+    ResponseTime: optional(num()),
+    data: optional(unknownValue()),
+  });
+  const body = object<Omit<T, keyof APIResponse>>(payload);
+
+  return {
+    check(value, path, ctx) {
+      const checked = status.check(value, path, ctx);
+      if ((checked as Partial<APIResponse> | undefined)?.Status?.Code !== 200) {
+        return checked as T;
+      }
+      return { ...checked, ...body.check(checked, path, ctx) } as T;
+    },
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Runtime schemas for the request and response types in api-types.ts
+ */
+
+import {
+  APIResponse,
+  BookingDetailRequest,
+  BookingDetailResponse,
+  BookingResponse,
+  BookingsByDateRequest,
+  BookingsByDateResponse,
+  BookingSummary,
+  CancellationPolicy,
+  CancelRequest,
+  CancelResponse,
+  CardHolderAddress,
+  City,
+  CityListRequest,
+  CityListResponse,
+  Country,
+  CountryListResponse,
+  CustomerDetails,
+  CustomerName,
+  HotelBookingDetails,
+  HotelBookRequest,
+  HotelCodeListEntry,
+  HotelCodeListResponse,
+  HotelDetail,
+  HotelDetailsRequest,
+  HotelDetailsResponse,
+  HotelResult,
+  HotelSearchRequest,
+  HotelSearchResponse,
+  PaxRoom,
+  PaymentInfo,
+  PreBookRequest,
+  PreBookResponse,
+  Price,
+  Room,
+  RoomDetails,
+  SearchFilters,
+  TBOHotelCodeListRequest,
+} from '../types/api-types';
+import { apiResponse, arrayOf, bool, num, object, oneOf, optional, Schema, str, unknownValue } from './schema';
+
+// Hotel Search
+export const PaxRoomSchema = object<PaxRoom>({
+  Adults: num(),
+  Children: num(),
+  ChildrenAges: arrayOf(num()),
+});
+
+export const SearchFiltersSchema = object<SearchFilters>({
+  Refundable: bool(),
+  NoOfRooms: num(),
+  MealType: str(),
+});
+
+export const HotelSearchRequestSchema = object<HotelSearchRequest>({
+  CheckIn: str(),
+  CheckOut: str(),
+  GuestNationality: str(),
+  PaxRooms: arrayOf(PaxRoomSchema),
+  HotelCodes: optional(str()),
+  ResponseTime: optional(num()),
+  IsDetailedResponse: optional(bool()),
+  Filters: optional(SearchFiltersSchema),
+});
+
+export const CancellationPolicySchema = object<CancellationPolicy>({
+  FromDate: str(),
+  ChargeType: str(),
+  CancellationCharge: num(),
+});
+
+export const RoomSchema = object<Room>({
+  Name: arrayOf(str()),
+  BookingCode: str(),
+  Inclusion: str(),
+  DayRates: optional(arrayOf(arrayOf(object<{ BasePrice: number }>({ BasePrice: num() })))),
+  TotalFare: num(),
+  TotalTax: num(),
+  RoomPromotion: arrayOf(unknownValue()),
+  CancelPolicies: arrayOf(CancellationPolicySchema),
+  MealType: str(),
+  IsRefundable: bool(),
+  WithTransfers: bool(),
+});
+
+export const HotelResultSchema = object<HotelResult>({
+  HotelCode: str(),
+  Currency: str(),
+  Rooms: arrayOf(RoomSchema),
+});
+
+export const HotelSearchResponseSchema = apiResponse<HotelSearchResponse>({
+  HotelResult: arrayOf(HotelResultSchema),
+});
+
+// PreBook
+export const PreBookRequestSchema = object<PreBookRequest>({
+  BookingCode: str(),
+  PaymentMode: str(),
+});
+
+export const PriceSchema = object<Price>({
+  RoomPrice: num(),
+  Tax: num(),
+  ExtraGuestCharge: num(),
+  ChildCharge: num(),
+  OtherCharges: num(),
+  Discount: num(),
+  PublishedPrice: num(),
+  PublishedPriceRoundedOff: num(),
+  OfferedPrice: num(),
+  OfferedPriceRoundedOff: num(),
+  AgentCommission: num(),
+  AgentMarkUp: num(),
+  ServiceTax: num(),
+  TDS: num(),
+  CurrencyCode: str(),
+});
+
+export const RoomDetailsSchema = object<RoomDetails>({
+  RoomIndex: num(),
+  RoomTypeName: str(),
+  RatePlanName: str(),
+  BedTypeName: str(),
+  SmokingPreference: str(),
+  Inclusion: arrayOf(str()),
+  RoomDescription: optional(str()),
+});
+
+export const HotelBookingDetailsSchema = object<HotelBookingDetails>({
+  BookingCode: str(),
+  HotelCode: str(),
+  HotelName: str(),
+  CheckIn: str(),
+  CheckOut: str(),
+  Price: PriceSchema,
+  RoomDetails: arrayOf(RoomDetailsSchema),
+  CancellationPolicies: object<HotelBookingDetails['CancellationPolicies']>({
+    CancelPolicies: arrayOf(CancellationPolicySchema),
+    NonRefundable: bool(),
+  }),
+  HotelDetails: object<HotelBookingDetails['HotelDetails']>({
+    Address: str(),
+    HotelContactNo: str(),
+    HotelEmailId: str(),
+    StarRating: num(),
+  }),
+});
+
+export const PreBookResponseSchema = apiResponse<PreBookResponse>({
+  HotelBookingDetails: HotelBookingDetailsSchema,
+});
+
+// Booking
+export const CustomerNameSchema = object<CustomerName>({
+  Title: str(),
+  FirstName: str(),
+  LastName: str(),
+  Type: oneOf('Adult', 'Child'),
+});
+
+export const CustomerDetailsSchema = object<CustomerDetails>({
+  CustomerNames: arrayOf(CustomerNameSchema),
+});
+
+export const CardHolderAddressSchema = object<CardHolderAddress>({
+  AddressLine1: str(),
+  AddressLine2: optional(str()),
+  City: str(),
+  PostalCode: str(),
+  CountryCode: str(),
+});
+
+export const PaymentInfoSchema = object<PaymentInfo>({
+  CvvNumber: str(),
+  CardNumber: optional(str()),
+  CardExpirationMonth: optional(str()),
+  CardExpirationYear: optional(str()),
+  CardHolderFirstName: optional(str()),
+  CardHolderlastName: optional(str()),
+  BillingAmount: optional(num()),
+  BillingCurrency: optional(str()),
+  CardHolderAddress: optional(CardHolderAddressSchema),
+});
+
+export const HotelBookRequestSchema = object<HotelBookRequest>({
+  BookingCode: str(),
+  CustomerDetails: arrayOf(CustomerDetailsSchema),
+  ClientReferenceId: optional(str()),
+  BookingReferenceId: optional(str()),
+  TotalFare: num(),
+  EmailId: str(),
+  PhoneNumber: str(),
+  BookingType: optional(str()),
+  PaymentMode: oneOf('Limit', 'SavedCard', 'NewCard'),
+  PaymentInfo: optional(PaymentInfoSchema),
+});
+
+export const BookingResponseSchema = apiResponse<BookingResponse>({
+  BookingDetails: object<BookingResponse['BookingDetails']>({
+    ConfirmationNumber: str(),
+    BookingId: num(),
+    BookingReferenceId: str(),
+    BookingStatus: str(),
+    InvoiceNumber: str(),
+    HotelName: str(),
+    HotelCode: str(),
+    CheckIn: str(),
+    CheckOut: str(),
+    Price: PriceSchema,
+    CustomerDetails: arrayOf(CustomerDetailsSchema),
+    HotelDetails: object<BookingResponse['BookingDetails']['HotelDetails']>({
+      Address: str(),
+      HotelContactNo: str(),
+      HotelEmailId: str(),
+    }),
+    CancellationPolicies: object<BookingResponse['BookingDetails']['CancellationPolicies']>({
+      CancelPolicies: arrayOf(CancellationPolicySchema),
+    }),
+  }),
+});
+
+// Utilities
+export const CountrySchema = object<Country>({
+  Code: str(),
+  Name: str(),
+});
+
+export const CountryListResponseSchema = apiResponse<CountryListResponse>({
+  CountryList: arrayOf(CountrySchema),
+});
+
+export const CitySchema = object<City>({
+  Code: str(),
+  Name: str(),
+  CountryCode: str(),
+});
+
+export const CityListRequestSchema = object<CityListRequest>({
+  CountryCode: str(),
+});
+
+export const CityListResponseSchema = apiResponse<CityListResponse>({
+  CityList: arrayOf(CitySchema),
+});
+
+export const HotelDetailsRequestSchema = object<HotelDetailsRequest>({
+  Hotelcodes: str(),
+  Language: optional(str()),
+});
+
+export const HotelDetailSchema = object<HotelDetail>({
+  HotelCode: str(),
+  HotelName: str(),
+  StarRating: num(),
+  Address: str(),
+  City: str(),
+  Country: str(),
+  Pincode: str(),
+  ContactNumber: str(),
+  EmailId: str(),
+  Website: str(),
+  Description: str(),
+  Facilities: arrayOf(str()),
+  HotelImages: arrayOf(object<HotelDetail['HotelImages'][number]>({
+    ImageUrl: str(),
+    Description: str(),
+  })),
+  CheckInTime: str(),
+  CheckOutTime: str(),
+  Latitude: num(),
+  Longitude: num(),
+});
+
+export const HotelDetailsResponseSchema = apiResponse<HotelDetailsResponse>({
+  HotelDetails: arrayOf(HotelDetailSchema),
+});
+
+export const HotelCodeListEntrySchema = object<HotelCodeListEntry>({
+  HotelCode: str(),
+  HotelName: str(),
+  HotelRating: optional(num()),
+  Address: optional(str()),
+  CityCode: optional(str()),
+  CityName: optional(str()),
+  CountryCode: optional(str()),
+  CountryName: optional(str()),
+  Latitude: optional(num()),
+  Longitude: optional(num()),
+});
+
+export const HotelCodeListResponseSchema = apiResponse<HotelCodeListResponse>({
+  Hotels: arrayOf(HotelCodeListEntrySchema),
+});
+
+export const TBOHotelCodeListRequestSchema = object<TBOHotelCodeListRequest>({
+  CityCode: str(),
+  IsDetailedResponse: oneOf('true', 'false'),
+});
+
+// Cancellation
+export const CancelRequestSchema = object<CancelRequest>({
+  ConfirmationNumber: str(),
+});
+
+export const CancelResponseSchema = apiResponse<CancelResponse>({
+  CancellationDetails: object<CancelResponse['CancellationDetails']>({
+    ConfirmationNumber: str(),
+    BookingReferenceId: str(),
+    CancellationId: str(),
+    CancellationStatus: str(),
+    CancellationDate: str(),
+    HotelName: str(),
+    RefundDetails: object<CancelResponse['CancellationDetails']['RefundDetails']>({
+      RefundAmount: num(),
+      CancellationCharge: num(),
+      Currency: str(),
+      OriginalBookingAmount: num(),
+      NetRefundAmount: num(),
+    }),
+  }),
+});
+
+// Booking Details
+export const BookingDetailRequestSchema = object<BookingDetailRequest>({
+  BookingReferenceId: str(),
+  PaymentMode: str(),
+});
+
+export const BookingDetailResponseSchema = apiResponse<BookingDetailResponse>({
+  BookingDetails: object<BookingDetailResponse['BookingDetails']>({
+    BookingCode: str(),
+    HotelCode: str(),
+    HotelName: str(),
+    CheckIn: str(),
+    CheckOut: str(),
+    Price: PriceSchema,
+    RoomDetails: arrayOf(RoomDetailsSchema),
+    CancellationPolicies: object<HotelBookingDetails['CancellationPolicies']>({
+      CancelPolicies: arrayOf(CancellationPolicySchema),
+      NonRefundable: bool(),
+    }),
+    HotelDetails: object<HotelBookingDetails['HotelDetails']>({
+      Address: str(),
+      HotelContactNo: str(),
+      HotelEmailId: str(),
+      StarRating: num(),
+    }),
+    ConfirmationNumber: optional(str()),
+    BookingId: optional(num()),
+    BookingReferenceId: optional(str()),
+    BookingStatus: optional(str()),
+    InvoiceNumber: optional(str()),
+  }),
+});
+
+export const BookingsByDateRequestSchema = object<BookingsByDateRequest>({
+  FromDate: str(),
+  ToDate: str(),
+});
+
+export const BookingSummarySchema = object<BookingSummary>({
+  BookingId: num(),
+  BookingReferenceId: str(),
+  ConfirmationNumber: str(),
+  BookingStatus: str(),
+  HotelName: str(),
+  CheckIn: str(),
+  CheckOut: str(),
+  Price: object<BookingSummary['Price']>({
+    OfferedPrice: num(),
+    CurrencyCode: str(),
+  }),
+});
+
+export const BookingsByDateResponseSchema = apiResponse<BookingsByDateResponse>({
+  BookingDetails: arrayOf(BookingSummarySchema),
+});
+
+/**
+ * Request and response schemas by endpoint
+ */
+export const ENDPOINT_SCHEMAS: Record<string, { request?: Schema<unknown>; response: Schema<APIResponse> }> = {
+  search: { request: HotelSearchRequestSchema, response: HotelSearchResponseSchema },
+  PreBook: { request: PreBookRequestSchema, response: PreBookResponseSchema },
+  Book: { request: HotelBookRequestSchema, response: BookingResponseSchema },
+  Cancel: { request: CancelRequestSchema, response: CancelResponseSchema },
+  BookingDetail: { request: BookingDetailRequestSchema, response: BookingDetailResponseSchema },
+  BookingDetailsBasedOnDate: { request: BookingsByDateRequestSchema, response: BookingsByDateResponseSchema },
+  CountryList: { response: CountryListResponseSchema },
+  CityList: { request: CityListRequestSchema, response: CityListResponseSchema },
+  Hoteldetails: { request: HotelDetailsRequestSchema, response: HotelDetailsResponseSchema },
+  hotelcodelist: { response: HotelCodeListResponseSchema },
+  TBOHotelCodeList: { request: TBOHotelCodeListRequestSchema, response: HotelCodeListResponseSchema },
+};
@@ -0,0 +1,54 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { HotelSearchClient, TBONetworkError, TBOSupplierError } from '../src';
+import { DEFAULT_FAKE_FIXTURES } from '../src/testing';
+import { FakeTransport, searchRequest } from './helpers';
+
+const CODES = DEFAULT_FAKE_FIXTURES.hotels.slice(0, 12).map(hotel => hotel.detail.HotelCode);
+
+function setup(): { transport: FakeTransport; search: HotelSearchClient } {
+  const transport = new FakeTransport();
+  return { transport, search: new HotelSearchClient({ transport }) };
+}
+
+describe('searchHotelsInBatches', () => {
+  it('returns the hotels of the batches that succeeded and reports the failed one', async () => {
+    const { transport, search } = setup();
+    transport.fail('search', 'dropped');
+
+    const result = await search.searchHotelsInBatches(searchRequest(), CODES, { batchSize: 4, concurrency: 1 });
+
+    assert.deepEqual(result.batches.map(batch => batch.status), ['failed', 'ok', 'ok']);
+    assert.ok(result.batches[0].error instanceof TBONetworkError);
+    assert.equal(result.failedBatches, 1);
+    assert.equal(result.response.Status.Code, 200);
+    assert.equal(result.response.HotelResult.length, result.batches[1].hotels + result.batches[2].hotels);
+    assert.ok(result.response.HotelResult.every(hotel => CODES.slice(4).includes(hotel.HotelCode)));
+  });
+
+  it('treats a body status error as a failed batch', async () => {
+    const { transport, search } = setup();
+    transport.fail('search', 500);
+
+    const result = await search.searchHotelsInBatches(searchRequest(), CODES, { batchSize: 6, concurrency: 1 });
+
+    assert.deepEqual(result.batches.map(batch => batch.status), ['failed', 'ok']);
+    assert.ok(result.batches[0].error instanceof TBOSupplierError);
+  });
+
+  it('marks batches without availability as empty rather than failed', async () => {
+    const { search } = setup();
+
+    const result = await search.searchHotelsInBatches(searchRequest(), ['9999901', '9999902', ...CODES.slice(0, 2)], { batchSize: 2 });
+
+    assert.deepEqual(result.batches.map(batch => batch.status), ['empty', 'ok']);
+    assert.equal(result.failedBatches, 0);
+  });
+
+  it('throws the first error when every batch fails', async () => {
+    const { transport, search } = setup();
+    transport.fail('search', 'dropped', 3);
+
+    await assert.rejects(search.searchHotelsInBatches(searchRequest(), CODES, { batchSize: 4 }), TBONetworkError);
+  });
+});
@@ -0,0 +1,183 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  BookingClient,
+  BookingFlow,
+  BookingFlowClients,
+  HotelSearchClient,
+  InMemoryBookingFlowStore,
+  PreBookClient,
+  TBOBookingStateUnknownError,
+  TBOCircuitOpenError,
+  TBOClientConfig,
+  TBOHolidaysSDK,
+  TBONetworkError,
+  TBOSchemaError,
+} from '../src';
+import { FakeTBOServer } from '../src/testing';
+import { CONTACT, FakeTransport, GUESTS, searchRequest } from './helpers';
+
+function setup(options: TBOClientConfig = {}): {
+  transport: FakeTransport;
+  clients: BookingFlowClients;
+  store: InMemoryBookingFlowStore;
+} {
+  const transport = new FakeTransport();
+  const config = { ...options, transport };
+  return {
+    transport,
+    clients: {
+      search: new HotelSearchClient(config),
+      preBook: new PreBookClient(config),
+      booking: new BookingClient(config),
+    },
+    store: new InMemoryBookingFlowStore(),
+  };
+}
+
+async function preBookedFlow(clients: BookingFlowClients, store: InMemoryBookingFlowStore): Promise<BookingFlow> {
+  const flow = new BookingFlow(clients, { store });
+  await flow.search(searchRequest());
+  await flow.preBook(flow.getSnapshot().offers[0].bookingCode);
+  return flow;
+}
+
+describe('Book recovery', () => {
+  it('resends Book only after BookingDetail says the booking does not exist', async () => {
+    const { transport, clients } = setup();
+    const offer = (await clients.search.searchHotels(searchRequest())).HotelResult[0].Rooms[0];
+    const preBook = await clients.preBook.preBookHotel(offer.BookingCode);
+    const request = clients.booking.createBookRequest(
+      offer.BookingCode,
+      preBook.HotelBookingDetails.Price.OfferedPrice,
+      GUESTS,
+      CONTACT
+    );
+
+    transport.fail('Book', 'dropped');
+    const response = await clients.booking.bookHotel(request, { lookupDelayMs: 0 });
+
+    assert.equal(response.Status.Code, 200);
+    assert.equal(transport.count('BookingDetail'), 1);
+    assert.equal(transport.count('Book'), 1);
+  });
+
+  it('returns the booking found after a lost Book reply without booking again', async () => {
+    const { transport, clients, store } = setup();
+    const flow = await preBookedFlow(clients, store);
+
+    transport.fail('Book', 'lost-reply');
+    const response = await flow.book(GUESTS, CONTACT);
+
+    assert.equal(flow.state, 'booked');
+    assert.equal(response.BookingDetails.ConfirmationNumber, flow.getSnapshot().booking?.confirmationNumber);
+    assert.equal(transport.count('Book'), 1);
+  });
+
+  it('keeps the flow pre-booked when BookingDetail cannot tell whether the booking exists', async () => {
+    const { transport, clients, store } = setup();
+    const flow = await preBookedFlow(clients, store);
+
+    transport.fail('Book', 'lost-reply');
+    transport.fail('BookingDetail', 500);
+    await assert.rejects(flow.book(GUESTS, CONTACT), TBOBookingStateUnknownError);
+
+    const pending = flow.getSnapshot().pendingBooking;
+    assert.equal(flow.state, 'prebooked');
+    assert.ok(pending);
+    await assert.rejects(flow.search(searchRequest()), /may already exist/);
+
+    const resumed = await BookingFlow.resume(flow.id, clients, store);
+    await resumed.book(GUESTS, CONTACT);
+
+    assert.equal(resumed.state, 'booked');
+    assert.equal(resumed.getSnapshot().booking?.bookingReferenceId, pending.bookingReferenceId);
+    assert.equal(transport.count('Book'), 1);
+  });
+
+  it('looks the booking up by its saved references when resuming after a crash mid-Book', async () => {
+    const { transport, clients, store } = setup();
+    const flow = await preBookedFlow(clients, store);
+
+    transport.fail('Book', 'hang');
+    void flow.book(GUESTS, CONTACT);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const saved = await store.load(flow.id);
+    assert.equal(saved?.state, 'prebooked');
+    assert.ok(saved?.pendingBooking);
+
+    const resumed = await BookingFlow.resume(flow.id, clients, store);
+    await resumed.book(GUESTS, CONTACT);
+
+    assert.equal(resumed.state, 'booked');
+    assert.equal(transport.count('Book'), 1);
+    assert.equal(resumed.getSnapshot().booking?.bookingReferenceId, saved.pendingBooking.bookingReferenceId);
+  });
+
+  it('throws TBOBookingStateUnknownError when the lookup answers with an unexpected status', async () => {
+    const { transport, clients } = setup();
+    const request = {
+      ...clients.booking.createBookRequest('unknown-code', 100, GUESTS, CONTACT),
+      BookingReferenceId: 'REF-UNKNOWN',
+    };
+
+    transport.fail('Book', 'lost-reply');
+    transport.fail('BookingDetail', 503);
+
+    await assert.rejects(
+      clients.booking.bookHotel(request, { lookupDelayMs: 0 }),
+      (error: unknown) => error instanceof TBOBookingStateUnknownError && error.bookingReferenceId === 'REF-UNKNOWN'
+    );
+    assert.equal(transport.count('Book'), 1);
+  });
+
+  describe('errors raised before Book is sent', () => {
+    it('rethrows a request that fails strict validation without looking it up', async () => {
+      const { transport, clients, store } = setup({ validation: { mode: 'strict' } });
+      const flow = await preBookedFlow(clients, store);
+      transport.fail('BookingDetail', 500);
+
+      await assert.rejects(
+        flow.book(GUESTS, CONTACT, { paymentMode: 'Cash' as 'Limit' }),
+        (error: unknown) => error instanceof TBOSchemaError && error.direction === 'request'
+      );
+
+      assert.equal(transport.count('Book'), 0);
+      assert.equal(transport.count('BookingDetail'), 0);
+      assert.equal(flow.state, 'failed');
+      assert.equal(flow.getSnapshot().pendingBooking, null);
+      await flow.search(searchRequest());
+    });
+
+    it('rethrows an open circuit without looking the booking up', async () => {
+      const server = new FakeTBOServer();
+      const sdk = new TBOHolidaysSDK({ baseURL: await server.start(), retries: 0, circuitBreaker: { failureThreshold: 1 } });
+      try {
+        sdk.circuitBreaker?.recordFailure();
+        const request = sdk.booking.createBookRequest('code', 100, GUESTS, CONTACT);
+
+        await assert.rejects(sdk.booking.bookHotel(request, { lookupDelayMs: 0 }), TBOCircuitOpenError);
+        assert.deepEqual(server.requests, []);
+      } finally {
+        await server.stop();
+      }
+    });
+
+    it('rethrows a refused connection without looking the booking up', async () => {
+      const server = new FakeTBOServer();
+      const baseURL = await server.start();
+      await server.stop();
+
+      const booking = new BookingClient({ baseURL, retries: 0, circuitBreaker: false });
+      const request = booking.createBookRequest('code', 100, GUESTS, CONTACT);
+
+      await assert.rejects(
+        booking.bookHotel(request, { lookupDelayMs: 0 }),
+        (error: unknown) => error instanceof TBONetworkError &&
+          !(error instanceof TBOBookingStateUnknownError) &&
+          error.errorCode === 'ECONNREFUSED'
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { CancellationPolicy, CancellationSchedule, nightsBetween, parsePolicyDate } from '../src';
+
+const POLICIES: CancellationPolicy[] = [
+  { FromDate: '14-11-2026 00:00:00', ChargeType: 'Fixed', CancellationCharge: 2000 },
+  { FromDate: '10-11-2026 00:00:00', ChargeType: 'Percentage', CancellationCharge: 0 },
+  { FromDate: '12-11-2026 00:00:00', ChargeType: 'Percentage', CancellationCharge: 50 },
+];
+
+describe('parsePolicyDate', () => {
+  it('reads TBO wall times in the given time zone', () => {
+    assert.equal(parsePolicyDate('15-11-2026 00:00:00'), Date.UTC(2026, 10, 15));
+    assert.equal(parsePolicyDate('15-11-2026 00:00:00', 'Asia/Dubai'), Date.UTC(2026, 10, 14, 20));
+    assert.equal(parsePolicyDate('2026-11-15 06:30', 'Asia/Kolkata'), Date.UTC(2026, 10, 15, 1));
+  });
+
+  it('follows daylight saving time', () => {
+    assert.equal(parsePolicyDate('15-01-2026 12:00:00', 'Europe/London'), Date.UTC(2026, 0, 15, 12));
+    assert.equal(parsePolicyDate('15-07-2026 12:00:00', 'Europe/London'), Date.UTC(2026, 6, 15, 11));
+    assert.equal(parsePolicyDate('15-07-2026 12:00:00', 'America/New_York'), Date.UTC(2026, 6, 15, 16));
+  });
+
+  it('takes dates with an explicit offset as they are', () => {
+    assert.equal(parsePolicyDate('2026-11-15T00:00:00+05:30', 'Asia/Dubai'), Date.UTC(2026, 10, 14, 18, 30));
+  });
+
+  it('returns null for unreadable dates', () => {
+    assert.equal(parsePolicyDate(''), null);
+    assert.equal(parsePolicyDate('next Tuesday'), null);
+  });
+
+  it('counts nights between stay dates', () => {
+    assert.equal(nightsBetween('2026-11-20', '2026-11-23'), 3);
+    assert.equal(nightsBetween('2026-11-20', 'soon'), 1);
+  });
+});
+
+describe('CancellationSchedule', () => {
+  const schedule = new CancellationSchedule(POLICIES, {
+    totalFare: 1000,
+    nights: 2,
+    currency: 'USD',
+    timeZone: 'Asia/Dubai',
+  });
+
+  it('sorts policies into tiers and caps penalties at the total fare', () => {
+    assert.deepEqual(schedule.tiers.map(tier => tier.from.toISOString()), [
+      '2026-11-09T20:00:00.000Z',
+      '2026-11-11T20:00:00.000Z',
+      '2026-11-13T20:00:00.000Z',
+    ]);
+    assert.deepEqual(schedule.tiers.map(tier => tier.chargeType), ['percentage', 'percentage', 'fixed']);
+    assert.deepEqual(schedule.tiers.map(tier => tier.penalty), [0, 500, 1000]);
+  });
+
+  it('charges the tier in force at the hotel\'s local time', () => {
+    assert.equal(schedule.penaltyAt(new Date('2026-11-11T19:59:59Z')).charge, 0);
+
+    const quote = schedule.penaltyAt(new Date('2026-11-11T20:00:00Z'));
+    assert.equal(quote.charge, 500);
+    assert.equal(quote.refund, 500);
+    assert.equal(quote.currency, 'USD');
+    assert.equal(quote.tier?.amount, 50);
+
+    assert.equal(schedule.isRefundable(new Date('2026-11-14T00:00:00Z')), false);
+  });
+
+  it('reports free cancellation until the first charging tier', () => {
+    assert.deepEqual(schedule.freeCancellation(new Date('2026-11-01T00:00:00Z')), {
+      available: true,
+      until: new Date('2026-11-11T20:00:00Z'),
+    });
+    assert.deepEqual(schedule.freeCancellation(new Date('2026-11-12T00:00:00Z')), { available: false, until: null });
+  });
+
+  it('prices night-based charges from the nightly rate', () => {
+    const nights = new CancellationSchedule(
+      [{ FromDate: '01-11-2026 00:00:00', ChargeType: 'Night', CancellationCharge: 1 }],
+      { totalFare: 900, nights: 3 }
+    );
+
+    assert.equal(nights.penaltyAt(new Date('2026-11-02T00:00:00Z')).charge, 300);
+  });
+
+  it('skips policies with unreadable dates', () => {
+    const partial = new CancellationSchedule(
+      [...POLICIES, { FromDate: 'not a date', ChargeType: 'Fixed', CancellationCharge: 10 }],
+      { totalFare: 1000 }
+    );
+
+    assert.equal(partial.tiers.length, POLICIES.length);
+  });
+
+  it('describes the policy with dates in the schedule\'s time zone', () => {
+    const text = schedule.describe();
+
+    assert.match(text, /^Free cancellation until 12 Nov 2026, 00:00 \(Asia\/Dubai\)\./);
+    assert.match(text, /50% of the total \(USD 500\.00\)/);
+    assert.match(text, /the full amount \(USD 1000\.00\)/);
+  });
+
+  it('describes a charge that starts later as free until then', () => {
+    const charged = new CancellationSchedule(
+      [{ FromDate: '12-11-2026 00:00:00', ChargeType: 'Percentage', CancellationCharge: 100 }],
+      { totalFare: 1000, currency: 'USD', timeZone: 'Asia/Dubai' }
+    );
+
+    assert.equal(
+      charged.describe('en-GB', new Date(Date.UTC(2026, 10, 1))),
+      'Free cancellation until 12 Nov 2026, 00:00 (Asia/Dubai). From 12 Nov 2026, 00:00 (Asia/Dubai): 100% of the total (USD 1000.00).'
+    );
+    assert.equal(
+      charged.describe('en-GB', new Date(Date.UTC(2026, 10, 12))),
+      'Non-refundable: cancelling costs the full amount (USD 1000.00).'
+    );
+  });
+
+  it('rejects unknown time zones', () => {
+    assert.throws(() => new CancellationSchedule(POLICIES, { totalFare: 1000, timeZone: 'Mars/Olympus' }), /Unknown time zone/);
+  });
+});
@@ -0,0 +1,86 @@
+import { strict as assert } from 'node:assert';
+import { after, before, describe, it } from 'node:test';
+import { CircuitBreaker, CircuitStateChange, TBOCircuitOpenError, TBOHolidaysSDK } from '../src';
+import { FakeTBOServer } from '../src/testing';
+import { searchRequest } from './helpers';
+
+describe('CircuitBreaker', () => {
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    assert.equal(breaker.state, 'closed');
+    breaker.recordFailure();
+
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.tryAcquire(), false);
+    assert.ok(breaker.retryInMs > 0);
+  });
+
+  it('lets a single trial request through once resetTimeoutMs has passed', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10 });
+    const changes: CircuitStateChange[] = [];
+    breaker.on('state-change', (change: CircuitStateChange) => changes.push(change));
+
+    breaker.recordFailure();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.state, 'half-open');
+    assert.equal(breaker.tryAcquire(), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.state, 'closed');
+    assert.deepEqual(changes.map(change => change.to), ['open', 'half-open', 'closed']);
+  });
+
+  it('re-opens when the trial request fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    assert.equal(breaker.tryAcquire(), true);
+    breaker.recordFailure();
+
+    assert.equal(breaker.state, 'open');
+  });
+
+  describe('in the HTTP transport', () => {
+    const server = new FakeTBOServer();
+    let baseURL = '';
+
+    before(async () => {
+      baseURL = await server.start();
+    });
+    after(() => server.stop());
+
+    it('refuses requests without sending them while open, per SDK instance', async () => {
+      const failing = new TBOHolidaysSDK({ baseURL, retries: 0, circuitBreaker: { failureThreshold: 2 } });
+      const healthy = new TBOHolidaysSDK({ baseURL, retries: 0 });
+
+      server.addScenario({ type: 'error', endpoint: 'search', status: 503, times: 2 });
+      await assert.rejects(failing.search.searchHotels(searchRequest()));
+      await assert.rejects(failing.search.searchHotels(searchRequest()));
+      assert.equal(failing.circuitBreaker?.state, 'open');
+
+      const sent = server.requests.length;
+      await assert.rejects(failing.search.searchHotels(searchRequest()), TBOCircuitOpenError);
+      assert.equal(server.requests.length, sent);
+
+      const response = await healthy.search.searchHotels(searchRequest());
+      assert.equal(response.Status.Code, 200);
+      assert.equal(healthy.circuitBreaker?.state, 'closed');
+    });
+
+    it('does not count answers below 500 as failures', async () => {
+      const sdk = new TBOHolidaysSDK({ baseURL, retries: 0, circuitBreaker: { failureThreshold: 1 } });
+
+      server.addScenario({ type: 'error', endpoint: 'search', status: 400, times: 1 });
+      await assert.rejects(sdk.search.searchHotels(searchRequest()));
+
+      assert.equal(sdk.circuitBreaker?.state, 'closed');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { strict as assert } from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { CatalogueHotel, HotelContentSync, InMemoryCatalogueStore, JsonLinesCatalogueStore, UtilitiesClient } from '../src';
+import { DEFAULT_FAKE_FIXTURES, FakeTBOFixtures, FakeTBOServer } from '../src/testing';
+import { FakeTransport } from './helpers';
+
+const DUBAI = '115936';
+const ABU_DHABI = '100765';
+
+function setup(): { fixtures: FakeTBOFixtures; transport: FakeTransport; sync: HotelContentSync; store: InMemoryCatalogueStore } {
+  // Own copy of the hotel list, so tests can add, drop and edit hotels between syncs
+  const fixtures = { ...DEFAULT_FAKE_FIXTURES, hotels: [...DEFAULT_FAKE_FIXTURES.hotels] };
+  const transport = new FakeTransport(new FakeTBOServer({ fixtures }));
+  const store = new InMemoryCatalogueStore();
+  return { fixtures, transport, store, sync: new HotelContentSync(new UtilitiesClient({ transport }), store) };
+}
+
+function cityHotelCodes(fixtures: FakeTBOFixtures, cityCode: string): string[] {
+  return fixtures.hotels.filter(hotel => hotel.cityCode === cityCode).map(hotel => hotel.detail.HotelCode);
+}
+
+describe('HotelContentSync', () => {
+  it('reports added, removed and changed hotels between runs', async () => {
+    const { fixtures, sync, store } = setup();
+
+    const first = await sync.sync();
+    assert.equal(first.added.length, fixtures.hotels.length);
+    assert.equal(first.total, fixtures.hotels.length);
+
+    const [dropped, edited] = fixtures.hotels.splice(0, 2);
+    fixtures.hotels.push({ ...edited, detail: { ...edited.detail, HotelName: `${edited.detail.HotelName} Renamed` } });
+
+    const second = await sync.sync();
+    assert.deepEqual(second.added, []);
+    assert.deepEqual(second.removed, [dropped.detail.HotelCode]);
+    assert.deepEqual(second.changed, [edited.detail.HotelCode]);
+    assert.equal(second.unchanged, fixtures.hotels.length - 1);
+
+    const saved = await store.load();
+    assert.equal(saved.length, fixtures.hotels.length);
+    assert.equal(saved.find(hotel => hotel.HotelCode === edited.detail.HotelCode)?.HotelName, `${edited.detail.HotelName} Renamed`);
+  });
+
+  it('leaves hotels of cities outside cityCodes untouched', async () => {
+    const { fixtures, sync, store } = setup();
+    await sync.sync();
+
+    const report = await sync.sync({ cityCodes: [DUBAI] });
+
+    assert.deepEqual(report.removed, []);
+    assert.equal(report.unchanged, cityHotelCodes(fixtures, DUBAI).length);
+    assert.equal((await store.load()).length, fixtures.hotels.length);
+  });
+
+  it('refuses to remove the hotels of a city whose code list comes back empty', async () => {
+    const { fixtures, transport, sync, store } = setup();
+    await sync.sync({ cityCodes: [DUBAI, ABU_DHABI] });
+
+    transport.fail('TBOHotelCodeList', 201);
+
+    await assert.rejects(
+      sync.sync({ cityCodes: [DUBAI, ABU_DHABI] }),
+      new RegExp(`city ${DUBAI} is empty, refusing to remove ${cityHotelCodes(fixtures, DUBAI).length} hotels`)
+    );
+    assert.equal((await store.load()).length, cityHotelCodes(fixtures, DUBAI).length + cityHotelCodes(fixtures, ABU_DHABI).length);
+  });
+
+  it('refuses to empty the catalogue when the whole code list is empty', async () => {
+    const { fixtures, transport, sync, store } = setup();
+    await sync.sync();
+
+    transport.fail('hotelcodelist', 201);
+
+    await assert.rejects(sync.sync(), /Hotel code list is empty/);
+    assert.equal((await store.load()).length, fixtures.hotels.length);
+  });
+});
+
+describe('JsonLinesCatalogueStore', () => {
+  // Enough lines to fill the write buffer, so save() waits for 'drain'
+  const hotels: CatalogueHotel[] = Array.from({ length: 500 }, (_, i) => ({
+    HotelCode: String(1000000 + i),
+    HotelName: `Hotel ${i} ${'x'.repeat(100)}`,
+    summaryHash: 'summary',
+    detail: null,
+    detailHash: null,
+    detailsSyncedAt: null,
+    updatedAt: new Date(0).toISOString(),
+  }));
+
+  it('reads back what it saved', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'catalogue-'));
+    try {
+      const store = new JsonLinesCatalogueStore(path.join(directory, 'hotels.jsonl'));
+      await store.save(hotels);
+      assert.deepEqual(await store.load(), hotels);
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects when the temporary file cannot be written and keeps the catalogue', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'catalogue-'));
+    try {
+      const filePath = path.join(directory, 'hotels.jsonl');
+      const store = new JsonLinesCatalogueStore(filePath);
+      await store.save(hotels.slice(0, 1));
+      // A directory in place of the temporary file makes opening it fail
+      await fs.promises.mkdir(`${filePath}.${process.pid}.tmp`);
+
+      await assert.rejects(store.save(hotels), { code: 'EISDIR' });
+      assert.deepEqual(await store.load(), hotels.slice(0, 1));
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { DestinationResolutionError, DestinationSearch, HotelSearchClient, UtilitiesClient } from '../src';
+import { daysFromNow, FakeTransport } from './helpers';
+
+const STAY = { checkIn: daysFromNow(30), checkOut: daysFromNow(32), rooms: [{ adults: 2 }] };
+
+function destinations(): DestinationSearch {
+  const transport = new FakeTransport();
+  return new DestinationSearch(new HotelSearchClient({ transport }), new UtilitiesClient({ transport }));
+}
+
+describe('DestinationSearch', () => {
+  it('searches the hotels of a city given by name, ignoring case and accents', async () => {
+    const result = await destinations().searchByDestination({ ...STAY, country: 'brazil', city: 'sao paulo' });
+
+    assert.equal(result.status, 'ok');
+    assert.equal(result.status === 'ok' && result.city.Code, '115934');
+  });
+
+  it('throws with the matching cities when a city is ambiguous', async () => {
+    await assert.rejects(
+      destinations().searchByDestination({ ...STAY, country: 'US', city: 'York' }),
+      (error: unknown) => {
+        assert.ok(error instanceof DestinationResolutionError);
+        assert.equal(error.reason, 'ambiguous');
+        assert.deepEqual(error.candidates.map(city => city.Name), ['New York', 'New York City']);
+        return true;
+      }
+    );
+  });
+
+  it('prefers an exact name over names containing it', async () => {
+    const result = await destinations().searchByDestination({ ...STAY, country: 'US', city: 'new york' });
+
+    assert.equal(result.status === 'ok' && result.city.Code, '138673');
+  });
+
+  it('returns ambiguous cities and countries as candidates when asked to', async () => {
+    const search = destinations();
+
+    const city = await search.searchByDestination({ ...STAY, country: 'US', city: 'York', onAmbiguous: 'candidates' });
+    assert.equal(city.status === 'ambiguous' && city.level, 'city');
+    assert.deepEqual(city.status === 'ambiguous' && city.candidates.map(entry => entry.Code), ['138673', '138674']);
+
+    const country = await search.searchByDestination({ ...STAY, country: 'United', city: 'Dubai', onAmbiguous: 'candidates' });
+    assert.equal(country.status === 'ambiguous' && country.level, 'country');
+    assert.deepEqual(country.status === 'ambiguous' && country.candidates.map(entry => entry.Code), ['AE', 'GB', 'US']);
+  });
+
+  it('throws not-found for a city the country does not have', async () => {
+    await assert.rejects(
+      destinations().searchByDestination({ ...STAY, country: 'AE', city: 'Atlantis' }),
+      { name: 'DestinationResolutionError', reason: 'not-found' }
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { distanceKm, GeoHotel, HotelGeoIndex } from '../src';
+import { DEFAULT_FAKE_FIXTURES } from '../src/testing';
+
+/**
+ * Hotels scattered around a point, the same on every run
+ */
+function scatter(count: number, latitude: number, longitude: number, spreadDegrees: number): GeoHotel[] {
+  let seed = 42;
+  const random = (): number => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  return Array.from({ length: count }, (_, i) => {
+    const lon = longitude + (random() - 0.5) * 2 * spreadDegrees;
+    return {
+      hotelCode: String(100000 + i),
+      hotelName: `Hotel ${i}`,
+      latitude: latitude + (random() - 0.5) * 2 * spreadDegrees,
+      longitude: ((lon + 540) % 360) - 180,
+    };
+  });
+}
+
+function codes(hotels: GeoHotel[]): string[] {
+  return hotels.map(hotel => hotel.hotelCode);
+}
+
+describe('HotelGeoIndex', () => {
+  it('finds the same hotels within a radius as a full scan, nearest first', () => {
+    const hotels = scatter(2000, 25.2, 55.3, 1);
+    const index = new HotelGeoIndex(hotels);
+    const center = { latitude: 25.2, longitude: 55.3 };
+
+    const expected = hotels
+      .map(hotel => ({ ...hotel, distanceKm: distanceKm(center, hotel) }))
+      .filter(hotel => hotel.distanceKm <= 30)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+    const found = index.withinRadius(center, 30);
+
+    assert.ok(expected.length > 10);
+    assert.deepEqual(codes(found), codes(expected));
+    assert.deepEqual(codes(index.withinRadius(center, 30, 5)), codes(expected.slice(0, 5)));
+  });
+
+  it('reaches across the antimeridian', () => {
+    const hotels = scatter(500, -17, 180, 0.5);
+    const index = new HotelGeoIndex(hotels);
+    const center = { latitude: -17, longitude: 179.95 };
+
+    const found = index.withinRadius(center, 40);
+
+    assert.ok(found.some(hotel => hotel.longitude < 0), 'hotels west of the antimeridian');
+    assert.ok(found.some(hotel => hotel.longitude > 0), 'hotels east of the antimeridian');
+    assert.equal(found.length, hotels.filter(hotel => distanceKm(center, hotel) <= 40).length);
+  });
+
+  it('reads a bounding box with west greater than east as crossing the antimeridian', () => {
+    const index = new HotelGeoIndex([
+      { hotelCode: 'east', hotelName: 'East', latitude: -17, longitude: 179.8 },
+      { hotelCode: 'west', hotelName: 'West', latitude: -17, longitude: -179.8 },
+      { hotelCode: 'greenwich', hotelName: 'Greenwich', latitude: -17, longitude: 0.5 },
+    ]);
+
+    const found = index.withinBoundingBox({ north: -16, south: -18, west: 179, east: -179 });
+
+    assert.deepEqual(codes(found).sort(), ['east', 'west']);
+  });
+
+  it('covers every longitude near the poles', () => {
+    const index = new HotelGeoIndex([
+      { hotelCode: 'a', hotelName: 'A', latitude: 89.95, longitude: 0 },
+      { hotelCode: 'b', hotelName: 'B', latitude: 89.95, longitude: 180 },
+    ]);
+
+    assert.deepEqual(codes(index.withinRadius({ latitude: 90, longitude: 0 }, 10)).sort(), ['a', 'b']);
+  });
+
+  it('skips hotels without usable coordinates', () => {
+    const detail = DEFAULT_FAKE_FIXTURES.hotels[0].detail;
+    const index = HotelGeoIndex.fromDetails([
+      { ...detail, HotelCode: '1', Latitude: 0, Longitude: 0 },
+      { ...detail, HotelCode: '2', Latitude: NaN },
+      { ...detail, HotelCode: '3', Latitude: 91 },
+      detail,
+    ]);
+
+    assert.equal(index.size, 1);
+  });
+});
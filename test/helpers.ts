@@ -0,0 +1,108 @@
+/**
+ * Shared setup for the offline tests
+ */
+
+import {
+  APIResponse,
+  BookingGuest,
+  createStatusError,
+  HotelSearchRequest,
+  TBONetworkError,
+  TBORequestOptions,
+  TBOSupplierError,
+  TBOTransport,
+} from '../src';
+import { DEFAULT_FAKE_FIXTURES, FakeTBOServer } from '../src/testing';
+
+export const GUESTS: BookingGuest[][] = [[{ title: 'Mr', firstName: 'Test', lastName: 'Guest' }]];
+
+export const CONTACT = { email: 'guest@example.com', phone: '+971500000000' };
+
+export const HOTEL_CODES = DEFAULT_FAKE_FIXTURES.hotels.slice(0, 4).map(hotel => hotel.detail.HotelCode);
+
+/**
+ * yyyy-MM-dd some days from today
+ */
+export function daysFromNow(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function searchRequest(hotelCodes: string[] = HOTEL_CODES, nights: number = 2): HotelSearchRequest {
+  return {
+    CheckIn: daysFromNow(30),
+    CheckOut: daysFromNow(30 + nights),
+    GuestNationality: 'AE',
+    HotelCodes: hotelCodes.join(','),
+    PaxRooms: [{ Adults: 2, Children: 0, ChildrenAges: [] }],
+  };
+}
+
+/**
+ * What goes wrong with the next request to an endpoint:
+ * - 'dropped': the connection drops before the request reaches the server
+ * - 'lost-reply': the server handles the request but the reply is lost
+ * - 'hang': the server handles the request and the caller never hears back
+ * - a number: the reply carries that Status.Code instead of the server's answer
+ */
+export type TransportFault = 'dropped' | 'lost-reply' | 'hang' | number;
+
+/**
+ * Transport calling FakeTBOServer.handleRequest directly, with faults that
+ * HTTP scenarios cannot express
+ */
+export class FakeTransport implements TBOTransport {
+  private faults: Array<{ endpoint: string; fault: TransportFault }> = [];
+
+  constructor(public readonly server: FakeTBOServer = new FakeTBOServer()) {}
+
+  /**
+   * Make the next request to an endpoint fail; faults are used in the order they were added
+   */
+  fail(endpoint: string, fault: TransportFault, times: number = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.faults.push({ endpoint, fault });
+    }
+  }
+
+  /**
+   * Requests the server received for an endpoint
+   */
+  count(endpoint: string): number {
+    return this.server.requests.filter(request => request.endpoint === endpoint.toLowerCase()).length;
+  }
+
+  async request<T extends APIResponse>(
+    endpoint: string,
+    data: Record<string, unknown> = {},
+    method: 'GET' | 'POST' = 'POST',
+    options: TBORequestOptions = {}
+  ): Promise<T> {
+    const index = this.faults.findIndex(entry => entry.endpoint === endpoint);
+    const fault = index === -1 ? null : this.faults.splice(index, 1)[0].fault;
+
+    if (fault === 'dropped') {
+      const error = new TBONetworkError(`socket hang up for ${endpoint}`, { endpoint });
+      error.errorCode = 'ECONNRESET';
+      throw error;
+    }
+
+    const result = await this.server.handleRequest(endpoint, method, data);
+
+    if (fault === 'lost-reply') {
+      throw new TBOSupplierError('Bad gateway', { code: 502, endpoint });
+    }
+    if (fault === 'hang') {
+      return new Promise<T>(() => undefined);
+    }
+
+    const body = (typeof fault === 'number'
+      ? { Status: { Code: fault, Description: 'Internal server error' } }
+      : result.body) as unknown as T;
+    if (options.throwOnStatusError && body.Status && body.Status.Code !== 200) {
+      throw createStatusError(endpoint, body, result.status);
+    }
+    return body;
+  }
+}
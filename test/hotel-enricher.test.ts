@@ -0,0 +1,62 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { HotelDetail, HotelEnricher, HotelSearchClient, HotelSearchResponse, silentLogger, UtilitiesClient } from '../src';
+import { DEFAULT_FAKE_FIXTURES } from '../src/testing';
+import { FakeTransport, HOTEL_CODES, searchRequest } from './helpers';
+
+async function setup(): Promise<{ transport: FakeTransport; enricher: HotelEnricher; response: HotelSearchResponse }> {
+  const transport = new FakeTransport();
+  const response = await new HotelSearchClient({ transport }).searchHotels(searchRequest());
+  return { transport, enricher: new HotelEnricher(new UtilitiesClient({ transport, logger: silentLogger })), response };
+}
+
+function detailOf(hotelCode: string): HotelDetail {
+  const fixture = DEFAULT_FAKE_FIXTURES.hotels.find(hotel => hotel.detail.HotelCode === hotelCode);
+  assert.ok(fixture);
+  return fixture.detail;
+}
+
+describe('HotelEnricher', () => {
+  it('joins every hotel with its details in search order', async () => {
+    const { enricher, response } = await setup();
+
+    const result = await enricher.enrich(response);
+
+    assert.deepEqual(result.hotels.map(hotel => hotel.hotelCode), response.HotelResult.map(hotel => hotel.HotelCode));
+    assert.deepEqual(result.missingContent, []);
+    assert.equal(result.hotels[0].content?.name, detailOf(result.hotels[0].hotelCode).HotelName);
+  });
+
+  it('keeps hotels TBO has no details for, without content', async () => {
+    const { enricher, response } = await setup();
+    const unknown = { ...response.HotelResult[0], HotelCode: '9999901' };
+
+    const result = await enricher.enrich({ ...response, HotelResult: [unknown, ...response.HotelResult] });
+
+    assert.equal(result.hotels[0].hotelCode, '9999901');
+    assert.equal(result.hotels[0].content, null);
+    assert.deepEqual(result.missingContent, ['9999901']);
+    assert.ok(result.hotels.slice(1).every(hotel => hotel.content));
+  });
+
+  it('reports the hotels of a failed Hoteldetails batch as missing instead of failing', async () => {
+    const { transport, enricher, response } = await setup();
+    transport.fail('Hoteldetails', 'dropped');
+
+    const result = await enricher.enrich(response, { batchSize: 2, concurrency: 1 });
+
+    const codes = response.HotelResult.map(hotel => hotel.HotelCode);
+    assert.deepEqual(result.missingContent, [...codes].sort().slice(0, 2));
+    assert.equal(result.hotels.filter(hotel => hotel.content).length, codes.length - 2);
+  });
+
+  it('fetches only the details not already known', async () => {
+    const { transport, enricher, response } = await setup();
+    const knownDetails = new Map(HOTEL_CODES.map(code => [code, detailOf(code)]));
+
+    const result = await enricher.enrich(response, { knownDetails });
+
+    assert.deepEqual(result.missingContent, []);
+    assert.equal(transport.count('Hoteldetails'), 0);
+  });
+});
@@ -0,0 +1,80 @@
+import { strict as assert } from 'node:assert';
+import { after, before, describe, it } from 'node:test';
+import { Readable } from 'stream';
+import { HotelCodeListEntry, TBOHolidaysSDK } from '../src';
+import { streamJsonArray } from '../src/utils/json-stream';
+import { DEFAULT_FAKE_FIXTURES, FakeTBOServer } from '../src/testing';
+
+/**
+ * Body split into chunks of a number of bytes, as a response stream would deliver it
+ */
+function chunks(text: string, size: number): Readable {
+  const bytes = Buffer.from(text, 'utf8');
+  const parts: Buffer[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    parts.push(bytes.subarray(i, i + size));
+  }
+  return Readable.from(parts);
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+describe('streamJsonArray', () => {
+  const body = {
+    Status: { Code: 200, Description: 'Successful' },
+    Hotels: [
+      { HotelCode: '1', HotelName: 'Café "Central" {rooms: [1, 2]}', Tags: ['a', 'b'] },
+      { HotelCode: '2', HotelName: 'São Paulo Plaza \\ 東京', Nested: { Deep: [{ Value: null }] } },
+      'plain string',
+      42,
+    ],
+    Trailer: { Count: 4 },
+  };
+
+  it('yields the same elements as JSON.parse however the body is split', async () => {
+    const text = JSON.stringify(body, null, 2);
+
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      const envelope: Record<string, unknown> = {};
+      const items = await collect(streamJsonArray(chunks(text, size), 'Hotels', envelope));
+
+      assert.deepEqual(items, body.Hotels, `chunk size ${size}`);
+      assert.deepEqual(envelope, { Status: body.Status, Trailer: body.Trailer }, `chunk size ${size}`);
+    }
+  });
+
+  it('yields nothing when the array is missing or empty', async () => {
+    const envelope: Record<string, unknown> = {};
+    const text = JSON.stringify({ Status: { Code: 201, Description: 'No data' }, Hotels: [] });
+
+    assert.deepEqual(await collect(streamJsonArray(chunks(text, 5), 'Hotels', envelope)), []);
+    assert.deepEqual(envelope, { Status: { Code: 201, Description: 'No data' } });
+    assert.deepEqual(await collect(streamJsonArray(chunks('{"Status":{"Code":200}}', 4), 'Hotels')), []);
+  });
+
+  describe('through the HTTP transport', () => {
+    const server = new FakeTBOServer();
+    let sdk: TBOHolidaysSDK;
+
+    before(async () => {
+      sdk = new TBOHolidaysSDK({ baseURL: await server.start(), circuitBreaker: false });
+    });
+    after(() => server.stop());
+
+    it('streams the hotel code list of a city', async () => {
+      const cityCode = DEFAULT_FAKE_FIXTURES.hotels[0].cityCode;
+      const hotels: HotelCodeListEntry[] = await collect(sdk.utilities.streamTBOHotelCodesByCity(cityCode));
+
+      assert.deepEqual(
+        hotels.map(hotel => hotel.HotelCode).sort(),
+        DEFAULT_FAKE_FIXTURES.hotels.filter(hotel => hotel.cityCode === cityCode).map(hotel => hotel.detail.HotelCode).sort()
+      );
+    });
+  });
+});
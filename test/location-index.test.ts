@@ -0,0 +1,75 @@
+import { strict as assert } from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { before, describe, it } from 'node:test';
+import { LocationIndex, UtilitiesClient } from '../src';
+import { FAKE_CITIES, FAKE_COUNTRIES } from '../src/testing';
+import { FakeTransport } from './helpers';
+
+describe('LocationIndex', () => {
+  let index: LocationIndex;
+
+  before(async () => {
+    index = await LocationIndex.build(new UtilitiesClient({ transport: new FakeTransport() }));
+  });
+
+  it('builds from CountryList and every CityList', () => {
+    assert.deepEqual(index.size, { countries: FAKE_COUNTRIES.length, cities: FAKE_CITIES.length });
+  });
+
+  it('ranks exact matches above prefixes and shorter names first', () => {
+    assert.deepEqual(index.search('new').map(match => match.name), ['New York', 'New Delhi', 'New York City']);
+    assert.deepEqual(index.search('new york').map(match => [match.name, match.score]), [['New York', 100], ['New York City', 80]]);
+  });
+
+  it('ignores case and accents', () => {
+    const [match] = index.search('SAO PAULO');
+
+    assert.equal(match.name, 'São Paulo');
+    assert.equal(match.countryName, 'Brazil');
+    assert.equal(match.score, 100);
+  });
+
+  it('tolerates small typos, scoring them below real matches', () => {
+    assert.deepEqual(index.search('Mumbia').map(match => [match.name, match.score]), [['Mumbai', 20]]);
+    assert.deepEqual(index.search('Istnabul').map(match => match.name), ['Istanbul']);
+    assert.deepEqual(index.search('Pxr'), []);
+  });
+
+  it('knows common aliases and says which one matched', () => {
+    const [bombay] = index.search('Bombay');
+    assert.equal(bombay.name, 'Mumbai');
+    assert.equal(bombay.alias, 'Bombay');
+
+    const [uae] = index.search('uae', { types: ['country'] });
+    assert.equal(uae.code, 'AE');
+    assert.equal(uae.alias, 'UAE');
+
+    assert.equal(index.search('NYC')[0].code, '138673');
+  });
+
+  it('matches country codes exactly only', () => {
+    assert.deepEqual(index.search('gb').map(match => [match.name, match.score]), [['United Kingdom', 100]]);
+    assert.equal(index.search('in', { types: ['country'] })[0].name, 'India');
+  });
+
+  it('filters by type and country', () => {
+    assert.deepEqual(index.search('new', { countryCode: 'IN' }).map(match => match.name), ['New Delhi']);
+    assert.ok(index.search('singapore', { types: ['city'] }).every(match => match.type === 'city'));
+    assert.equal(index.search('new', { limit: 1 }).length, 1);
+  });
+
+  it('reads back what it saved', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'locations-'));
+    try {
+      const filePath = path.join(directory, 'locations.json');
+      await index.save(filePath);
+
+      const loaded = await LocationIndex.load(filePath);
+      assert.deepEqual(loaded.search('bombay'), index.search('bombay'));
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
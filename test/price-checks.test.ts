@@ -0,0 +1,107 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  BookingClient,
+  BookingFlow,
+  breakdownPrice,
+  breakdownRoomFare,
+  HotelSearchClient,
+  PreBookClient,
+  Price,
+  Room,
+} from '../src';
+import { CONTACT, daysFromNow, FakeTransport, GUESTS, searchRequest } from './helpers';
+
+const PRICE: Price = {
+  RoomPrice: 800,
+  Tax: 80,
+  ServiceTax: 20,
+  ExtraGuestCharge: 30,
+  ChildCharge: 0,
+  OtherCharges: 10,
+  Discount: 40,
+  AgentMarkUp: 25,
+  PublishedPrice: 925,
+  PublishedPriceRoundedOff: 925,
+  AgentCommission: 50,
+  TDS: 5,
+  OfferedPrice: 880,
+  OfferedPriceRoundedOff: 880,
+  CurrencyCode: 'USD',
+};
+
+describe('Price checks', () => {
+  it('breaks a search room down by room and night and finds it consistent', async () => {
+    const search = new HotelSearchClient({ transport: new FakeTransport() });
+    const request = { ...searchRequest(), PaxRooms: [{ Adults: 2, Children: 0, ChildrenAges: [] }, { Adults: 1, Children: 0, ChildrenAges: [] }] };
+    const hotel = (await search.searchHotels(request)).HotelResult[0];
+    const room = hotel.Rooms[0];
+
+    const breakdown = search.getPriceBreakdown(hotel, room, { paxRooms: request.PaxRooms, checkIn: request.CheckIn });
+
+    assert.equal(breakdown.isConsistent, true);
+    assert.deepEqual(breakdown.issues, []);
+    assert.equal(breakdown.nights, 2);
+    assert.equal(breakdown.guests, 3);
+    assert.equal(breakdown.rooms.length, 2);
+    assert.equal(breakdown.rooms[0].nightlyRates[1].date, daysFromNow(31));
+    assert.ok(Math.abs(breakdown.rooms.reduce((total, share) => total + share.totalFare, 0) - room.TotalFare) < 0.01);
+  });
+
+  it('reports day rates that do not add up to TotalFare', () => {
+    const room = {
+      Name: ['Standard Room'],
+      DayRates: [[{ BasePrice: 100 }, { BasePrice: 100 }]],
+      TotalFare: 250,
+      TotalTax: 20,
+    } as Room;
+
+    const breakdown = breakdownRoomFare(room, { paxRooms: [{ Adults: 1, Children: 0, ChildrenAges: [] }, { Adults: 1, Children: 0, ChildrenAges: [] }] });
+
+    assert.equal(breakdown.isConsistent, false);
+    assert.deepEqual(breakdown.issues.map(issue => issue.code).sort(), ['day-rates-mismatch', 'room-count-mismatch']);
+    assert.equal(breakdown.issues.find(issue => issue.code === 'day-rates-mismatch')?.actual, 220);
+  });
+
+  it('checks pre-book price components against PublishedPrice and OfferedPrice', () => {
+    const consistent = breakdownPrice(PRICE, { nights: 2, rooms: 1, guests: 2 });
+
+    assert.equal(consistent.isConsistent, true);
+    assert.equal(consistent.taxes.total, 100);
+    assert.equal(consistent.fees.total, 40);
+    assert.equal(consistent.perNight, 462.5);
+
+    const inconsistent = breakdownPrice({ ...PRICE, PublishedPrice: 900, PublishedPriceRoundedOff: 925 });
+    assert.deepEqual(inconsistent.issues.map(issue => issue.code), [
+      'published-price-mismatch',
+      'offered-price-mismatch',
+      'rounded-price-mismatch',
+    ]);
+  });
+
+  it('stops a booking flow at a changed pre-book fare until the change is accepted', async () => {
+    const transport = new FakeTransport();
+    const config = { transport };
+    const flow = new BookingFlow({
+      search: new HotelSearchClient(config),
+      preBook: new PreBookClient(config),
+      booking: new BookingClient(config),
+    });
+
+    await flow.search(searchRequest());
+    const offer = flow.getSnapshot().offers[0];
+    transport.server.addScenario({ type: 'price-change', priceFactor: 1.2, times: 1 });
+    await flow.preBook(offer.bookingCode);
+
+    const preBook = flow.getSnapshot().preBook;
+    assert.equal(flow.state, 'price-changed');
+    assert.equal(preBook?.previousFare, offer.totalFare);
+    assert.ok(Math.abs((preBook?.totalFare || 0) - offer.totalFare * 1.2) < 0.01);
+    await assert.rejects(flow.book(GUESTS, CONTACT));
+    assert.equal(transport.count('Book'), 0);
+
+    await flow.acceptPriceChange();
+    await flow.book(GUESTS, CONTACT);
+    assert.equal(flow.state, 'booked');
+  });
+});
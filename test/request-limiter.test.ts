@@ -0,0 +1,94 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { RequestLimiter } from '../src';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('RequestLimiter', () => {
+  it('runs at most maxConcurrent requests at once, in scheduling order', async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = gates.map((gate, index) => limiter.schedule('search', async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.deepEqual(started, [0, 1]);
+    assert.equal(limiter.inFlight, 2);
+    assert.equal(limiter.pending, 1);
+
+    gates[0].resolve();
+    await results[0];
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(started, [0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    assert.deepEqual(await Promise.all(results), [0, 1, 2]);
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  it('spaces requests beyond the burst at the configured rate', async () => {
+    const limiter = new RequestLimiter({ requestsPerSecond: 20, burst: 2 });
+    const started: number[] = [];
+    const begin = Date.now();
+
+    const results = [0, 1, 2, 3].map(index => limiter.schedule('search', () => {
+      started.push(index);
+      return Promise.resolve();
+    }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    // The burst starts at once; the rest wait for tokens
+    assert.deepEqual(started, [0, 1]);
+    assert.equal(limiter.pending, 2);
+
+    await Promise.all(results);
+    assert.deepEqual(started, [0, 1, 2, 3]);
+    assert.equal(limiter.pending, 0);
+    // Two more tokens at 50 ms each; only a lower bound, so a slow machine cannot fail it
+    assert.ok(Date.now() - begin >= 80, `waited ${Date.now() - begin} ms for two tokens`);
+  });
+
+  it('does not hold back other endpoints behind one at its own limit', async () => {
+    const limiter = new RequestLimiter({ endpoints: { Book: { maxConcurrent: 1 } } });
+    const book = deferred();
+    const started: string[] = [];
+
+    const first = limiter.schedule('Book', async () => {
+      started.push('Book');
+      await book.promise;
+    });
+    const second = limiter.schedule('Book', () => {
+      started.push('Book');
+      return Promise.resolve();
+    });
+    await limiter.schedule('search', () => {
+      started.push('search');
+      return Promise.resolve();
+    });
+
+    assert.deepEqual(started, ['Book', 'search']);
+
+    book.resolve();
+    await Promise.all([first, second]);
+    assert.deepEqual(started, ['Book', 'search', 'Book']);
+  });
+
+  it('passes task failures to the caller and frees the slot', async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 });
+
+    await assert.rejects(limiter.schedule('search', () => Promise.reject(new Error('boom'))), /boom/);
+    assert.equal(await limiter.schedule('search', () => Promise.resolve('next')), 'next');
+  });
+});
@@ -0,0 +1,90 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { APIResponse, MemoryCacheStore, ResponseCache, silentLogger, UtilitiesClient } from '../src';
+import { FakeTransport } from './helpers';
+
+type CountResponse = APIResponse & { Count: number };
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Fetch answering with how many times it has been called
+ */
+function counter(code: number = 200): { fetch: () => Promise<CountResponse>; calls: () => number } {
+  let calls = 0;
+  return {
+    fetch: () => Promise.resolve({ Status: { Code: code, Description: '' }, Count: ++calls }),
+    calls: () => calls,
+  };
+}
+
+describe('ResponseCache', () => {
+  it('serves fresh entries without fetching', async () => {
+    const cache = new ResponseCache({ ttls: { CountryList: 1000 } }, silentLogger);
+    const source = counter();
+
+    assert.equal((await cache.getOrFetch('CountryList', {}, source.fetch)).Count, 1);
+    assert.equal((await cache.getOrFetch('CountryList', {}, source.fetch)).Count, 1);
+    assert.equal(source.calls(), 1);
+  });
+
+  it('serves stale entries while revalidating them in the background', async () => {
+    const cache = new ResponseCache({ ttls: { CountryList: 20 }, staleWhileRevalidateMs: 1000 }, silentLogger);
+    const source = counter();
+
+    await cache.getOrFetch('CountryList', {}, source.fetch);
+    await sleep(30);
+
+    assert.equal((await cache.getOrFetch('CountryList', {}, source.fetch)).Count, 1);
+    await sleep(0);
+    assert.equal(source.calls(), 2);
+    assert.equal((await cache.getOrFetch('CountryList', {}, source.fetch)).Count, 2);
+  });
+
+  it('waits for a fresh response once an entry is past the stale window', async () => {
+    const cache = new ResponseCache({ ttls: { CountryList: 10 }, staleWhileRevalidateMs: 10 }, silentLogger);
+    const source = counter();
+
+    await cache.getOrFetch('CountryList', {}, source.fetch);
+    await sleep(30);
+
+    assert.equal((await cache.getOrFetch('CountryList', {}, source.fetch)).Count, 2);
+  });
+
+  it('shares one fetch between concurrent misses and keeps params apart', async () => {
+    const cache = new ResponseCache({ ttls: { CityList: 1000 } }, silentLogger);
+    const source = counter();
+
+    const [first, second] = await Promise.all([
+      cache.getOrFetch('CityList', { CountryCode: 'AE' }, source.fetch),
+      cache.getOrFetch('CityList', { CountryCode: 'AE' }, source.fetch),
+    ]);
+    const other = await cache.getOrFetch('CityList', { CountryCode: 'GB' }, source.fetch);
+
+    assert.equal(first.Count, 1);
+    assert.equal(second.Count, 1);
+    assert.equal(other.Count, 2);
+  });
+
+  it('does not store responses with an error status', async () => {
+    const cache = new ResponseCache({ ttls: { CountryList: 1000 } }, silentLogger);
+    const source = counter(500);
+
+    await cache.getOrFetch('CountryList', {}, source.fetch);
+    await cache.getOrFetch('CountryList', {}, source.fetch);
+
+    assert.equal(source.calls(), 2);
+  });
+
+  it('hands out copies, so changing a cached response leaves the cache alone', async () => {
+    const transport = new FakeTransport();
+    const utilities = new UtilitiesClient({ transport, cache: { store: new MemoryCacheStore() } });
+
+    const first = await utilities.getCountryList();
+    first.CountryList.length = 0;
+    const second = await utilities.getCountryList();
+
+    assert.ok(second.CountryList.length > 0);
+    assert.equal(transport.count('CountryList'), 1);
+  });
+});
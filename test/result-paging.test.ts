@@ -0,0 +1,93 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { HotelResultQuery, HotelSearchClient, QueryableHotel, Room } from '../src';
+import { DEFAULT_FAKE_FIXTURES } from '../src/testing';
+import { FakeTransport, searchRequest } from './helpers';
+
+function hotel(hotelCode: string, ...fares: number[]): QueryableHotel {
+  return {
+    hotelCode,
+    currency: 'USD',
+    rooms: fares.map(fare => ({ TotalFare: fare, MealType: 'Room_Only', IsRefundable: true, WithTransfers: false }) as Room),
+    content: null,
+  };
+}
+
+const HOTELS = [
+  hotel('H5', 500),
+  hotel('H1', 300, 120),
+  hotel('H4', 200),
+  hotel('H2', 200),
+  hotel('H3', 150, 900),
+];
+
+function pageThrough(query: HotelResultQuery, limit: number): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = query.page({ limit, cursor });
+    pages.push(page.hotels.map(entry => entry.hotelCode));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('Result cursor paging', () => {
+  it('walks every matching hotel once, in sort order with ties broken by hotel code', () => {
+    const query = new HotelResultQuery(HOTELS).sortBy('price');
+
+    assert.deepEqual(pageThrough(query, 2), [['H1', 'H3'], ['H2', 'H4'], ['H5']]);
+    assert.equal(query.page({ limit: 2 }).total, 5);
+  });
+
+  it('returns no cursor on the last page', () => {
+    const page = new HotelResultQuery(HOTELS).sortBy('price').page({ limit: 5 });
+
+    assert.equal(page.hotels.length, 5);
+    assert.equal(page.nextCursor, null);
+  });
+
+  it('continues after the last hotel shown when results change between pages', () => {
+    const query = new HotelResultQuery(HOTELS).sortBy('price');
+    const first = query.page({ limit: 2 });
+
+    // A cheaper hotel appears and H2 sells out before the next page is fetched
+    const refreshed = new HotelResultQuery([...HOTELS.filter(entry => entry.hotelCode !== 'H2'), hotel('H0', 100)]).sortBy('price');
+    const second = refreshed.page({ limit: 2, cursor: first.nextCursor });
+
+    assert.deepEqual(second.hotels.map(entry => entry.hotelCode), ['H4', 'H5']);
+  });
+
+  it('pages in descending order', () => {
+    const query = new HotelResultQuery(HOTELS).sortBy('price', 'desc');
+
+    assert.deepEqual(pageThrough(query, 3), [['H5', 'H2', 'H4'], ['H3', 'H1']]);
+  });
+
+  it('rejects cursors from another query and malformed cursors', () => {
+    const cursor = new HotelResultQuery(HOTELS).sortBy('price').page({ limit: 2 }).nextCursor;
+
+    assert.throws(() => new HotelResultQuery(HOTELS).sortBy('price').priceBetween(0, 400).page({ cursor }), /different query/);
+    assert.throws(() => new HotelResultQuery(HOTELS).page({ cursor: 'not-a-cursor' }), /Invalid result cursor/);
+  });
+
+  it('applies no filter for stars() and mealType() without arguments', () => {
+    const query = new HotelResultQuery(HOTELS);
+
+    assert.equal(query.stars().mealType().all().length, HOTELS.length);
+    assert.equal(query.mealType('BreakFast').mealType().all().length, HOTELS.length);
+  });
+
+  it('pages through a fake server search response', async () => {
+    const search = new HotelSearchClient({ transport: new FakeTransport() });
+    const codes = DEFAULT_FAKE_FIXTURES.hotels.map(entry => entry.detail.HotelCode);
+    const query = HotelResultQuery.fromResponse(await search.searchHotels(searchRequest(codes))).sortBy('price');
+
+    const pages = pageThrough(query, 3);
+    const seen = pages.flat();
+
+    assert.equal(seen.length, query.all().length);
+    assert.equal(new Set(seen).size, seen.length);
+    assert.deepEqual(seen, query.all().map(entry => entry.hotelCode));
+  });
+});
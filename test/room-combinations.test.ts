@@ -0,0 +1,103 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { HotelSearchClient, HotelSearchResponse, PaxRoom, Room } from '../src';
+import { daysFromNow, FakeTransport, HOTEL_CODES } from './helpers';
+
+const PAX_ROOMS: PaxRoom[] = [
+  { Adults: 2, Children: 0, ChildrenAges: [] },
+  { Adults: 1, Children: 1, ChildrenAges: [6] },
+];
+
+function room(overrides: Partial<Room>): Room {
+  return {
+    Name: ['Double Room', 'Family Room'],
+    BookingCode: 'code-1',
+    Inclusion: 'Breakfast',
+    DayRates: [[{ BasePrice: 100 }, { BasePrice: 110 }], [{ BasePrice: 80 }, { BasePrice: 90 }]],
+    TotalFare: 420,
+    TotalTax: 40,
+    RoomPromotion: [],
+    CancelPolicies: [],
+    MealType: 'BB',
+    IsRefundable: true,
+    WithTransfers: false,
+    ...overrides,
+  };
+}
+
+function response(rooms: Room[]): HotelSearchResponse {
+  return {
+    Status: { Code: 200, Description: 'Successful' },
+    HotelResult: [{ HotelCode: '1000001', Currency: 'USD', Rooms: rooms }],
+  };
+}
+
+describe('Room combinations', () => {
+  const search = new HotelSearchClient({ transport: new FakeTransport() });
+
+  it('maps each room of a combination to its occupancy, cheapest combination first', () => {
+    const [hotel] = search.getRoomCombinations(
+      response([room({ BookingCode: 'dear', TotalFare: 600 }), room({ BookingCode: 'cheap' })]),
+      PAX_ROOMS
+    );
+
+    assert.deepEqual(hotel.combinations.map(combination => combination.bookingCode), ['cheap', 'dear']);
+    assert.deepEqual(hotel.combinations[0].rooms, [
+      { occupancy: PAX_ROOMS[0], name: 'Double Room', baseFare: 210 },
+      { occupancy: PAX_ROOMS[1], name: 'Family Room', baseFare: 170 },
+    ]);
+    assert.equal(hotel.combinations[0].currency, 'USD');
+  });
+
+  it('sets offers that do not cover every occupancy apart', () => {
+    const partial = room({ BookingCode: 'partial', Name: ['Double Room'], DayRates: [[{ BasePrice: 100 }]] });
+    const uneven = room({ BookingCode: 'uneven', DayRates: [[{ BasePrice: 100 }]] });
+    const noCode = room({ BookingCode: '' });
+
+    const [hotel] = search.getRoomCombinations(response([partial, uneven, noCode, room({})]), PAX_ROOMS);
+
+    assert.deepEqual(hotel.combinations.map(combination => combination.bookingCode), ['code-1']);
+    assert.deepEqual(hotel.incomplete, [partial, uneven, noCode]);
+  });
+
+  it('leaves baseFare null when TBO sends no day rates', () => {
+    const withoutRates = room({});
+    delete withoutRates.DayRates;
+    const [hotel] = search.getRoomCombinations(response([withoutRates]), PAX_ROOMS);
+
+    assert.deepEqual(hotel.combinations[0].rooms.map(entry => entry.baseFare), [null, null]);
+  });
+
+  it('reads the free cancellation deadline in the given time zone', () => {
+    const policies = [
+      { FromDate: '01-01-2100 00:00:00', ChargeType: 'Percentage', CancellationCharge: 0 },
+      { FromDate: '10-01-2100 00:00:00', ChargeType: 'Percentage', CancellationCharge: 100 },
+    ];
+    const rooms = response([room({ CancelPolicies: policies })]);
+
+    const [utc] = search.getRoomCombinations(rooms, PAX_ROOMS);
+    const [dubai] = search.getRoomCombinations(rooms, PAX_ROOMS, { timeZone: 'Asia/Dubai' });
+
+    assert.equal(utc.combinations[0].freeCancellationUntil, '2100-01-10T00:00:00.000Z');
+    assert.equal(dubai.combinations[0].freeCancellationUntil, '2100-01-09T20:00:00.000Z');
+  });
+
+  it('groups a multi-room search into combinations covering every room', async () => {
+    const { hotels } = await search.searchRoomCombinations(
+      daysFromNow(30),
+      daysFromNow(32),
+      [{ adults: 2 }, { adults: 1, children: 1, childrenAges: [6] }],
+      'AE',
+      HOTEL_CODES.join(',')
+    );
+
+    assert.ok(hotels.length > 0);
+    for (const hotel of hotels) {
+      assert.ok(hotel.combinations.length > 0);
+      for (const combination of hotel.combinations) {
+        assert.equal(combination.rooms.length, 2);
+        assert.equal(combination.rooms[1].occupancy.Children, 1);
+      }
+    }
+  });
+});
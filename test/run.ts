@@ -0,0 +1,20 @@
+/**
+ * Offline test suite - runs every *.test.ts in this directory with node:test,
+ * against the fake TBO server instead of the live API
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+async function main(): Promise<void> {
+  const files = fs.readdirSync(__dirname).filter(file => file.endsWith('.test.ts')).sort();
+
+  for (const file of files) {
+    await import(path.join(__dirname, file));
+  }
+}
+
+main().catch((error: Error) => {
+  console.error('❌ Could not load the tests:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  APIResponse,
+  HotelSearchClient,
+  HotelSearchRequestSchema,
+  PaxRoomSchema,
+  TBORequestOptions,
+  TBOSchemaError,
+  TBOValidationWarning,
+  validate,
+} from '../src';
+import { FakeTransport, searchRequest } from './helpers';
+
+/**
+ * Fake transport sending fares as strings, as TBO sometimes does
+ */
+class StringFaresTransport extends FakeTransport {
+  override async request<T extends APIResponse>(
+    endpoint: string,
+    data: Record<string, unknown> = {},
+    method: 'GET' | 'POST' = 'POST',
+    options: TBORequestOptions = {}
+  ): Promise<T> {
+    const body = await super.request<T>(endpoint, data, method, options);
+    return JSON.parse(JSON.stringify(body, (key, value: unknown) => key === 'TotalFare' ? String(value) : value)) as T;
+  }
+}
+
+describe('validate', () => {
+  it('reports mismatches as they are in strict mode', () => {
+    const result = validate(PaxRoomSchema, { Adults: '2', Children: 0 }, 'strict');
+
+    assert.deepEqual(result.value, { Adults: '2', Children: 0 });
+    assert.deepEqual(result.issues.map(issue => issue.path), ['Adults', 'ChildrenAges']);
+  });
+
+  it('coerces what it can in lenient mode and reports every fix', () => {
+    const result = validate(PaxRoomSchema, { Adults: '2', Children: 0 }, 'lenient');
+
+    assert.deepEqual(result.value, { Adults: 2, Children: 0, ChildrenAges: [] });
+    assert.equal(result.issues.length, 2);
+  });
+
+  it('accepts a valid request without issues', () => {
+    assert.deepEqual(validate(HotelSearchRequestSchema, searchRequest(), 'strict').issues, []);
+  });
+});
+
+describe('Client validation', () => {
+  it('throws a response TBOSchemaError in strict mode', async () => {
+    const search = new HotelSearchClient({ transport: new StringFaresTransport(), validation: { mode: 'strict' } });
+
+    await assert.rejects(search.searchHotels(searchRequest()), (error: unknown) => {
+      assert.ok(error instanceof TBOSchemaError);
+      assert.equal(error.direction, 'response');
+      assert.match(error.issues[0].path, /^HotelResult\[0\]\.Rooms\[0\]\.TotalFare$/);
+      return true;
+    });
+  });
+
+  it('returns coerced responses and reports warnings in lenient mode', async () => {
+    const warnings: TBOValidationWarning[] = [];
+    const search = new HotelSearchClient({
+      transport: new StringFaresTransport(),
+      validation: { mode: 'lenient', onWarning: warning => warnings.push(warning) },
+    });
+
+    const response = await search.searchHotels(searchRequest());
+
+    assert.equal(typeof response.HotelResult[0].Rooms[0].TotalFare, 'number');
+    assert.equal(warnings.length, 1);
+    assert.equal(warnings[0].direction, 'response');
+  });
+
+  it('rejects invalid requests in strict mode before sending them', async () => {
+    const transport = new FakeTransport();
+    const search = new HotelSearchClient({ transport, validation: { mode: 'strict' } });
+    const request = { ...searchRequest(), PaxRooms: [{ Adults: 'two' as unknown as number, Children: 0, ChildrenAges: [] }] };
+
+    await assert.rejects(search.searchHotels(request), { name: 'TBOSchemaError', direction: 'request' });
+    assert.equal(transport.count('search'), 0);
+  });
+
+  it('leaves responses alone when response validation is off', async () => {
+    const search = new HotelSearchClient({
+      transport: new StringFaresTransport(),
+      validation: { mode: 'strict', responses: false },
+    });
+
+    const response = await search.searchHotels(searchRequest());
+
+    assert.equal(typeof response.HotelResult[0].Rooms[0].TotalFare, 'string');
+  });
+});
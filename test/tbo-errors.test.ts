@@ -0,0 +1,90 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import {
+  APIResponse,
+  createErrorFromAxios,
+  createStatusError,
+  parseRetryAfter,
+  TBOApiError,
+  TBOAuthenticationError,
+  TBONetworkError,
+  TBONoAvailabilityError,
+  TBOPriceChangedError,
+  TBORateLimitError,
+  TBOSupplierError,
+  TBOTimeoutError,
+  TBOValidationError,
+} from '../src';
+
+function body(code: number, description: string = ''): APIResponse {
+  return { Status: { Code: code, Description: description } };
+}
+
+function axiosError(status: number, data: unknown, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  const response: AxiosResponse = { status, statusText: '', headers, config, data };
+  return new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+}
+
+describe('createStatusError', () => {
+  it('picks the error class from the body status code', () => {
+    assert.ok(createStatusError('search', body(401)) instanceof TBOAuthenticationError);
+    assert.ok(createStatusError('search', body(429)) instanceof TBORateLimitError);
+    assert.ok(createStatusError('search', body(201)) instanceof TBONoAvailabilityError);
+    assert.ok(createStatusError('search', body(400)) instanceof TBOValidationError);
+    assert.ok(createStatusError('search', body(500)) instanceof TBOSupplierError);
+    assert.equal(createStatusError('search', body(300)).constructor, TBOApiError);
+  });
+
+  it('reads price changes and sold-out rooms from the description', () => {
+    assert.ok(createStatusError('PreBook', body(500, 'Price has changed for this room')) instanceof TBOPriceChangedError);
+    assert.ok(createStatusError('PreBook', body(500, 'Room is no longer available')) instanceof TBONoAvailabilityError);
+  });
+
+  it('keeps the endpoint and status details', () => {
+    const error = createStatusError('PreBook', body(400, 'Invalid BookingCode'));
+
+    assert.equal(error.endpoint, 'PreBook');
+    assert.equal(error.tboStatusCode, 400);
+    assert.equal(error.tboStatusDescription, 'Invalid BookingCode');
+    assert.equal(error.message, 'PreBook failed with TBO status 400: Invalid BookingCode');
+  });
+});
+
+describe('createErrorFromAxios', () => {
+  it('lets the HTTP status decide authentication and rate limits', () => {
+    assert.ok(createErrorFromAxios(axiosError(401, body(500)), 'search') instanceof TBOAuthenticationError);
+    assert.ok(createErrorFromAxios(axiosError(503, undefined), 'search') instanceof TBOSupplierError);
+  });
+
+  it('prefers the body status over the HTTP status', () => {
+    assert.ok(createErrorFromAxios(axiosError(500, body(400, 'Bad request')), 'search') instanceof TBOValidationError);
+  });
+
+  it('reads Retry-After on rate limits', () => {
+    const error = createErrorFromAxios(axiosError(429, undefined, { 'retry-after': '3' }), 'search');
+
+    assert.ok(error instanceof TBORateLimitError);
+    assert.equal(error.retryAfterMs, 3000);
+  });
+
+  it('tells timeouts from other network errors and keeps the system error code', () => {
+    const config = { headers: new AxiosHeaders() };
+    const timeout = createErrorFromAxios(new AxiosError('timeout of 1000ms exceeded', AxiosError.ECONNABORTED, config), 'search');
+    const refused = createErrorFromAxios(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config), 'search');
+
+    assert.ok(timeout instanceof TBOTimeoutError);
+    assert.ok(refused instanceof TBONetworkError && !(refused instanceof TBOTimeoutError));
+    assert.equal(refused.errorCode, 'ECONNREFUSED');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('2'), 2000);
+    assert.equal(parseRetryAfter(new Date(0).toUTCString()), 0);
+    assert.equal(parseRetryAfter(''), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+  });
+});
@@ -0,0 +1,75 @@
+import { strict as assert } from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { BookingGuest, Cassette, REDACTED, scrubRecord, TBOHolidaysSDK } from '../src';
+import { FakeTBOServer } from '../src/testing';
+import { CONTACT, searchRequest } from './helpers';
+
+const CREDENTIALS = { username: 'recorder-user', password: 'recorder-secret' };
+
+const GUESTS: BookingGuest[][] = [[{ title: 'Ms', firstName: 'Ottoline', lastName: 'Featherstonehaugh' }]];
+
+describe('scrubRecord', () => {
+  it('redacts credentials, card data and guest details at any depth', () => {
+    const scrubbed = scrubRecord({
+      Password: 'secret',
+      PaymentInfo: { CardNumber: '4111111111111111', CvvNumber: '123' },
+      CustomerDetails: [{ CustomerNames: [{ FirstName: 'Test', LastName: 'Guest', Type: 'Adult' }] }],
+      Remarks: 'Send the voucher to guest@example.com please',
+      EmailId: null,
+    });
+
+    assert.deepEqual(scrubbed, {
+      Password: REDACTED,
+      PaymentInfo: { CardNumber: REDACTED, CvvNumber: REDACTED },
+      CustomerDetails: [{ CustomerNames: [{ FirstName: REDACTED, LastName: REDACTED, Type: 'Adult' }] }],
+      Remarks: `Send the voucher to ${REDACTED} please`,
+      EmailId: null,
+    });
+  });
+});
+
+describe('TrafficRecorder', () => {
+  const server = new FakeTBOServer(CREDENTIALS);
+  let directory = '';
+  let baseURL = '';
+
+  before(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    baseURL = await server.start();
+  });
+  after(async () => {
+    await server.stop();
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes cassettes without credentials or guest details and replays them offline', async () => {
+    const cassettePath = path.join(directory, 'book.json');
+    const recording = new TBOHolidaysSDK({ ...CREDENTIALS, baseURL, retries: 0, recording: { mode: 'record', cassettePath } });
+
+    const offer = (await recording.search.searchHotels(searchRequest())).HotelResult[0].Rooms[0];
+    const preBook = await recording.preBook.preBookHotel(offer.BookingCode);
+    const request = recording.booking.createBookRequest(offer.BookingCode, preBook.HotelBookingDetails.Price.OfferedPrice, GUESTS, CONTACT);
+    const booked = await recording.booking.bookHotel(request);
+
+    const text = fs.readFileSync(cassettePath, 'utf8');
+    const cassette = JSON.parse(text) as Cassette;
+    assert.deepEqual(cassette.interactions.map(interaction => interaction.request.endpoint), ['search', 'PreBook', 'Book']);
+    for (const secret of [
+      CREDENTIALS.password,
+      Buffer.from(`${CREDENTIALS.username}:${CREDENTIALS.password}`).toString('base64'),
+      GUESTS[0][0].firstName,
+      GUESTS[0][0].lastName,
+      CONTACT.email,
+      CONTACT.phone,
+    ]) {
+      assert.ok(!text.includes(secret), `cassette contains ${secret}`);
+    }
+
+    const replaying = new TBOHolidaysSDK({ baseURL: 'http://127.0.0.1:9', retries: 0, recording: { mode: 'replay', cassettePath } });
+    const replayed = await replaying.booking.bookHotel(request);
+    assert.equal(replayed.BookingDetails.ConfirmationNumber, booked.BookingDetails.ConfirmationNumber);
+  });
+});